@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { detectAnimation } from '../src/animationInfo';
+import { DEFAULT_EXPORT_OPTIONS, makeUniqueName, type ExportFormat, type ExportOptions } from '../src/export';
+import { DEFAULT_PREPROCESS, type Preprocess } from '../src/preprocess';
+import { parsePresetFile } from '../src/presets';
+import type { Watermark } from '../src/watermark';
+import { loadLogos, renderImageFile, type LogoMap } from '../node/render';
+
+const USAGE = `用法:
+  watermark apply --preset <预设.json> [选项] <图片或目录...> -o <输出目录>
+
+选项:
+  -p, --preset <file>     从应用导出的预设文件（必填）
+  -n, --name <name>       文件中有多个预设时使用的名称或 id，默认第一个
+  -o, --out <dir>         输出目录，默认 ./watermarked
+  -f, --format <format>   png | jpeg | webp，默认 ${DEFAULT_EXPORT_OPTIONS.format}
+  -q, --quality <0-1>     JPEG/WebP 质量，默认 ${DEFAULT_EXPORT_OPTIONS.quality}
+      --max-edge <px>     输出最长边，0 为原图尺寸
+      --template <text>   文件名模板，默认 ${DEFAULT_EXPORT_OPTIONS.filenameTemplate}
+      --owner <id>        写入隐形水印的所有者 ID（最多 8 字节）
+  -h, --help              显示帮助
+`;
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif', '.bmp', '.avif']);
+
+const fail = (message: string): never => {
+  console.error(`错误: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+// Directories are expanded one level so the CLI also works where the shell does not glob
+const collectInputs = async (inputs: string[]) => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => fail(`找不到输入: ${input}`));
+    if (info.isDirectory()) {
+      const entries = await readdir(input);
+      entries
+        .filter(entry => IMAGE_EXTENSIONS.has(path.extname(entry).toLowerCase()))
+        .sort()
+        .forEach(entry => files.push(path.join(input, entry)));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+// Animated GIFs and APNGs would come out as their first frame alone; the editor exports them whole.
+// Null when the file is skipped for that reason
+const applyFile = async (
+  file: string,
+  index: number,
+  layers: Watermark[],
+  preprocess: Preprocess,
+  logos: LogoMap,
+  options: ExportOptions,
+  outDir: string,
+  // Names written so far; a template that maps two inputs to one name gets _2, _3… instead of overwriting
+  usedNames: Set<string>
+) => {
+  const buffer = await readFile(file);
+  if (await detectAnimation(new File([buffer], path.basename(file)))) return null;
+  const { mtimeMs } = await stat(file);
+  const rendered = await renderImageFile(buffer, path.basename(file), mtimeMs, layers, preprocess, logos, options, index);
+  const target = path.join(outDir, makeUniqueName(rendered.filename, usedNames));
+  await writeFile(target, rendered.data);
+  return target;
+};
+
+const apply = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      name: { type: 'string', short: 'n' },
+      out: { type: 'string', short: 'o', default: 'watermarked' },
+      format: { type: 'string', short: 'f', default: DEFAULT_EXPORT_OPTIONS.format },
+      quality: { type: 'string', short: 'q', default: String(DEFAULT_EXPORT_OPTIONS.quality) },
+      'max-edge': { type: 'string', default: String(DEFAULT_EXPORT_OPTIONS.maxEdge) },
+      template: { type: 'string', default: DEFAULT_EXPORT_OPTIONS.filenameTemplate },
+      owner: { type: 'string', default: '' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.preset) fail('缺少 --preset');
+  if (positionals.length === 0) fail('缺少输入图片');
+  if (!['png', 'jpeg', 'webp'].includes(values.format)) fail(`不支持的格式: ${values.format}`);
+  const quality = Number(values.quality);
+  if (values.quality.trim() === '' || !Number.isFinite(quality) || quality < 0 || quality > 1) {
+    fail(`质量必须是 0 到 1 之间的数字: ${values.quality}`);
+  }
+
+  const options: ExportOptions = {
+    format: values.format as ExportFormat,
+    quality,
+    maxEdge: Math.max(0, parseInt(values['max-edge']) || 0),
+    filenameTemplate: values.template,
+    invisibleOwnerId: values.owner,
+    fadeInFrames: 0,
+  };
+
+  const presets = parsePresetFile(await readFile(values.preset!, 'utf8'));
+  const preset = values.name
+    ? presets.find(p => p.name === values.name || p.id === values.name)
+    : presets[0];
+  if (!preset) fail(values.name ? `预设文件中没有 "${values.name}"` : '预设文件是空的');
+
+  const files = await collectInputs(positionals);
+  const logos = await loadLogos(preset!.watermarks);
+  await mkdir(values.out, { recursive: true });
+
+  let failed = 0;
+  const usedNames = new Set<string>();
+  for (let i = 0; i < files.length; i++) {
+    try {
+      const target = await applyFile(files[i], i + 1, preset!.watermarks, preset!.preprocess ?? DEFAULT_PREPROCESS, logos, options, values.out, usedNames);
+      if (target) console.log(`[${i + 1}/${files.length}] ${files[i]} -> ${target}`);
+      else console.warn(`[${i + 1}/${files.length}] ${files[i]} 已跳过: 动图请在应用中导出`);
+    } catch (err) {
+      failed++;
+      console.error(`[${i + 1}/${files.length}] ${files[i]} 失败: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  if (failed > 0) process.exit(1);
+};
+
+const main = async () => {
+  const [command, ...rest] = process.argv.slice(2);
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'apply') fail(`未知命令: ${command}`);
+  await apply(rest);
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
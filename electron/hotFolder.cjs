@@ -0,0 +1,126 @@
+const fs = require('fs');
+const fsp = require('fs/promises');
+const path = require('path');
+
+// Formats the editor can decode; anything else dropped in the folder is ignored
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+// A file counts as fully written once its size stays the same between two checks
+const SETTLE_INTERVAL = 500;
+const SETTLE_TIMEOUT = 60000;
+
+const isImage = (name) => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase());
+
+// Plain file names only: no folders, no characters Windows refuses, no dot files
+const isPlainImageName = (name) =>
+  name === path.basename(name) && !/[\\/:*?"<>|\x00-\x1f]/.test(name) && !name.startsWith('.') && isImage(name);
+
+const isInside = (parent, child) => {
+  const relative = path.relative(parent, child);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Watches one input folder for new images and gives the renderer guarded access to it:
+ * only images inside the input folder can be read, and only plain image file names can be
+ * written, into the output folder. Files already present when watching starts are skipped.
+ * The caller passes only folders the user picked in the native dialog.
+ */
+function createHotFolder({ onFile, onError }) {
+  let watcher = null;
+  let folders = null;
+  // name → "size:mtime" of files already reported, so rewrites of a processed file are picked up again
+  const reported = new Map();
+  const settling = new Set();
+
+  async function waitUntilSettled(file) {
+    const started = Date.now();
+    let previous = -1;
+    while (Date.now() - started < SETTLE_TIMEOUT) {
+      const stat = await fsp.stat(file).catch(() => null);
+      if (!stat || !stat.isFile()) return null;
+      if (stat.size > 0 && stat.size === previous) return stat;
+      previous = stat.size;
+      await delay(SETTLE_INTERVAL);
+    }
+    return null;
+  }
+
+  async function handleChange(name) {
+    if (!folders || !name || !isImage(name) || settling.has(name)) return;
+    const file = path.join(folders.input, name);
+    settling.add(name);
+    try {
+      const stat = await waitUntilSettled(file);
+      if (!stat || !folders) return;
+      const key = `${stat.size}:${stat.mtimeMs}`;
+      if (reported.get(name) === key) return;
+      reported.set(name, key);
+      onFile({ path: file, name, size: stat.size, lastModified: stat.mtimeMs });
+    } finally {
+      settling.delete(name);
+    }
+  }
+
+  async function start(input, output) {
+    stop();
+    const inputDir = path.resolve(input);
+    const outputDir = path.resolve(output);
+    if (inputDir === outputDir || isInside(inputDir, outputDir)) {
+      throw new Error('输出文件夹不能位于输入文件夹内');
+    }
+    const stat = await fsp.stat(inputDir).catch(() => null);
+    if (!stat || !stat.isDirectory()) throw new Error('输入文件夹不存在');
+    await fsp.mkdir(outputDir, { recursive: true });
+
+    reported.clear();
+    for (const name of await fsp.readdir(inputDir)) {
+      const existing = await fsp.stat(path.join(inputDir, name)).catch(() => null);
+      if (existing && existing.isFile()) reported.set(name, `${existing.size}:${existing.mtimeMs}`);
+    }
+
+    folders = { input: inputDir, output: outputDir };
+    watcher = fs.watch(inputDir, (event, name) => {
+      handleChange(name ? name.toString() : '');
+    });
+    watcher.on('error', (err) => {
+      stop();
+      onError(err.message);
+    });
+  }
+
+  function stop() {
+    if (watcher) watcher.close();
+    watcher = null;
+    folders = null;
+  }
+
+  async function read(file) {
+    if (!folders || !isInside(folders.input, path.resolve(file)) || !isImage(file)) {
+      throw new Error('只能读取输入文件夹中的图片');
+    }
+    return fsp.readFile(file);
+  }
+
+  // Appends _2, _3… instead of overwriting an earlier result
+  async function write(name, data) {
+    if (!folders) throw new Error('监视文件夹未启动');
+    if (!isPlainImageName(name)) throw new Error(`输出文件名无效: ${name}`);
+    const ext = path.extname(name);
+    const stem = name.slice(0, name.length - ext.length);
+    for (let n = 1; ; n++) {
+      const target = path.join(folders.output, n === 1 ? name : `${stem}_${n}${ext}`);
+      try {
+        await fsp.writeFile(target, data, { flag: 'wx' });
+        return target;
+      } catch (err) {
+        if (err.code !== 'EEXIST') throw err;
+      }
+    }
+  }
+
+  return { start, stop, read, write };
+}
+
+module.exports = { createHotFolder };
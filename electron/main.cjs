@@ -1,7 +1,64 @@
-const { app, BrowserWindow } = require('electron');
+const { app, BrowserWindow, dialog, ipcMain } = require('electron');
+const { randomUUID } = require('crypto');
+const fs = require('fs/promises');
 const path = require('path');
+const { createHotFolder } = require('./hotFolder.cjs');
 const isDev = process.env.NODE_ENV === 'development';
 
+let mainWindow = null;
+
+// 监视文件夹：新图片的路径发给页面，由页面按预设渲染后再写回输出文件夹
+const hotFolder = createHotFolder({
+  onFile: (file) => mainWindow?.webContents.send('hotfolder:file', file),
+  onError: (message) => mainWindow?.webContents.send('hotfolder:error', message),
+});
+
+// 页面只能通过这些通道访问文件系统；错误以 { error } 返回，避免 Electron 给消息加上调用前缀
+const handle = (channel, fn) => {
+  ipcMain.handle(channel, async (event, ...args) => {
+    if (event.sender !== mainWindow?.webContents) return { error: '未授权的窗口' };
+    try {
+      return { value: await fn(...args) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+};
+
+// 本次运行中用户亲手选过的文件夹；页面只拿到 id，监视文件夹只接受这些 id，不接受页面给的路径
+const pickedFolders = new Map();
+
+handle('dialog:pickFolder', async (title) => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: typeof title === 'string' ? title : undefined,
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (result.canceled) return null;
+  const id = randomUUID();
+  pickedFolders.set(id, result.filePaths[0]);
+  return { id, path: result.filePaths[0] };
+});
+
+const getPickedFolder = (id) => {
+  const folder = pickedFolders.get(String(id));
+  if (!folder) throw new Error('请重新选择文件夹');
+  return folder;
+};
+
+handle('dialog:saveFile', async (defaultName, data) => {
+  const result = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: path.basename(String(defaultName)),
+  });
+  if (result.canceled || !result.filePath) return null;
+  await fs.writeFile(result.filePath, Buffer.from(data));
+  return result.filePath;
+});
+
+handle('hotfolder:start', (inputId, outputId) => hotFolder.start(getPickedFolder(inputId), getPickedFolder(outputId)));
+handle('hotfolder:stop', () => hotFolder.stop());
+handle('hotfolder:read', async (file) => new Uint8Array(await hotFolder.read(String(file))));
+handle('hotfolder:write', (name, data) => hotFolder.write(String(name), Buffer.from(data)));
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 1200,
@@ -10,9 +67,16 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      sandbox: true,
+      preload: path.join(__dirname, 'preload.cjs'),
     },
     icon: path.join(__dirname, '../public/favicon.ico') // 如果有图标的话
   });
+  mainWindow = win;
+  win.on('closed', () => {
+    hotFolder.stop();
+    if (mainWindow === win) mainWindow = null;
+  });
 
   if (isDev) {
     win.loadURL('http://localhost:3000');
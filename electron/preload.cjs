@@ -0,0 +1,27 @@
+const { contextBridge, ipcRenderer } = require('electron');
+
+// 页面拿到的唯一桌面接口（window.desktop），不暴露 ipcRenderer 本身
+const invoke = async (channel, ...args) => {
+  const result = await ipcRenderer.invoke(channel, ...args);
+  if (result && result.error) throw new Error(result.error);
+  return result ? result.value : undefined;
+};
+
+const subscribe = (channel, callback) => {
+  const listener = (event, payload) => callback(payload);
+  ipcRenderer.on(channel, listener);
+  return () => ipcRenderer.removeListener(channel, listener);
+};
+
+contextBridge.exposeInMainWorld('desktop', {
+  pickFolder: (title) => invoke('dialog:pickFolder', title),
+  saveFile: (defaultName, data) => invoke('dialog:saveFile', defaultName, data),
+  hotFolder: {
+    start: (input, output) => invoke('hotfolder:start', input, output),
+    stop: () => invoke('hotfolder:stop'),
+    read: (file) => invoke('hotfolder:read', file),
+    write: (name, data) => invoke('hotfolder:write', name, data),
+    onFile: (callback) => subscribe('hotfolder:file', callback),
+    onError: (callback) => subscribe('hotfolder:error', callback),
+  },
+});
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GlobalFonts, createCanvas, loadImage, type Canvas, type FontKey, type Image } from '@napi-rs/canvas';
+import { applyOrientation, getOrientedSize, readImageMetadata, readImageSize } from '../src/exif';
+import {
+  getBaseName,
+  getFormatInfo,
+  getOutputSize,
+  resolveFilename,
+  type ExportOptions,
+} from '../src/export';
+import { embedInvisibleMark } from '../src/invisible';
+import { preprocessImage, resolvePreprocess, type Preprocess } from '../src/preprocess';
+import { renderWatermarkedImage, type Canvas2DLike, type ScratchLayer } from '../src/render';
+import type { Watermark } from '../src/watermark';
+
+/**
+ * Node counterpart of the editor's export path, shared by the CLI and the HTTP server.
+ * Layout comes from src/render.ts, so the output matches what the app draws.
+ */
+
+type Drawable = Image | Canvas;
+
+export type LogoMap = Map<string, Image>;
+
+export interface RenderedFile {
+  data: Buffer;
+  filename: string;
+  mime: string;
+  width: number;
+  height: number;
+}
+
+export interface RenderLimits {
+  // Rejects images, decoded or pre-processed, larger than this many pixels before allocating their canvas
+  maxPixels?: number;
+}
+
+const decodeDataUrl = (src: string) => {
+  const [header, data = ''] = src.split(',', 2);
+  return header.endsWith(';base64') ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data));
+};
+
+export class ImageTooLargeError extends Error {}
+
+const checkPixels = ({ width, height }: { width: number; height: number }, limits: RenderLimits, what: string) => {
+  if (limits.maxPixels && width * height > limits.maxPixels) {
+    throw new ImageTooLargeError(`${what}尺寸 ${width}×${height} 超过上限`);
+  }
+};
+
+// Image files compress well, so a small upload can decode into a huge bitmap. The header check
+// refuses those before the decoder allocates them; formats it cannot read are checked once decoded
+const decodeImage = async (buffer: Buffer, limits: RenderLimits, what: string) => {
+  const headerSize = readImageSize(new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+  if (headerSize) checkPixels(headerSize, limits, what);
+  const image = await loadImage(buffer);
+  checkPixels(image, limits, what);
+  return image;
+};
+
+export const loadLogos = async (layers: Watermark[], limits: RenderLimits = {}) => {
+  const logos: LogoMap = new Map();
+  for (const layer of layers) {
+    if (layer.type !== 'image' || logos.has(layer.src)) continue;
+    logos.set(layer.src, await decodeImage(decodeDataUrl(layer.src), limits, '水印图片'));
+  }
+  return logos;
+};
+
+let fontScope = 0;
+
+/**
+ * Uploaded fonts travel inside the layers. Each render registers them under names of its own and
+ * removes them when done, so a long-running server neither collects fonts nor lends one request's
+ * fonts to the next. Returns the layers pointed at those names.
+ */
+const registerFonts = (layers: Watermark[]) => {
+  const scope = ++fontScope;
+  const aliases = new Map<string, string>();
+  const keys: FontKey[] = [];
+  const scoped = layers.map(layer => {
+    if (layer.type !== 'text' || !layer.fontSrc) return layer;
+    let alias = aliases.get(layer.fontSrc);
+    if (!alias) {
+      alias = `uploaded-font-${scope}-${aliases.size}`;
+      aliases.set(layer.fontSrc, alias);
+      const key = GlobalFonts.register(decodeDataUrl(layer.fontSrc), alias);
+      if (key) keys.push(key);
+    }
+    return { ...layer, fontFamily: alias };
+  });
+  return { layers: scoped, release: () => GlobalFonts.removeBatch(keys) };
+};
+
+// Mirrors prepareOutputCanvas() in src/export.ts: downscale, flatten onto white for JPEG, then the invisible mark
+const prepareOutput = (rendered: Canvas, options: ExportOptions) => {
+  const { width, height } = getOutputSize(rendered.width, rendered.height, options.maxEdge);
+  const needsCopy = width !== rendered.width || height !== rendered.height || options.format === 'jpeg' || !!options.invisibleOwnerId;
+  if (!needsCopy) return rendered;
+
+  const output = createCanvas(width, height);
+  const ctx = output.getContext('2d');
+  if (options.format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(rendered, 0, 0, width, height);
+
+  if (options.invisibleOwnerId) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    embedInvisibleMark(pixels, { ownerId: options.invisibleOwnerId, timestamp: new Date() });
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return output;
+};
+
+const encode = (canvas: Canvas, options: ExportOptions) => {
+  const quality = Math.round(options.quality * 100);
+  switch (options.format) {
+    case 'jpeg': return canvas.encode('jpeg', quality);
+    case 'webp': return canvas.encode('webp', quality);
+    default: return canvas.encode('png');
+  }
+};
+
+const createLayer = (width: number, height: number) =>
+  createCanvas(width, height).getContext('2d') as unknown as ScratchLayer<Drawable>;
+
+/** Decodes an image file, pre-processes it, applies the layers and encodes the result with the export options. */
+export const renderImageFile = async (
+  buffer: Buffer,
+  fileName: string,
+  lastModified: number,
+  layers: Watermark[],
+  preprocess: Preprocess,
+  logos: LogoMap,
+  options: ExportOptions,
+  index = 1,
+  limits: RenderLimits = {}
+): Promise<RenderedFile> => {
+  const image = await decodeImage(buffer, limits, '图片');
+  const metadata = await readImageMetadata(new File([buffer], fileName, { lastModified }));
+
+  // Decoders here hand back the stored pixels, so EXIF orientation is applied explicitly
+  let source: Drawable = image;
+  if (metadata.orientation > 1) {
+    const size = getOrientedSize(image.width, image.height, metadata.orientation);
+    const upright = createCanvas(size.width, size.height);
+    const ctx = upright.getContext('2d');
+    applyOrientation(ctx, metadata.orientation, image.width, image.height);
+    ctx.drawImage(image, 0, 0);
+    source = upright;
+  }
+
+  // Resizing can make the processed image far larger than the upload
+  checkPixels(resolvePreprocess(source, preprocess).frame, limits, '处理后的图片');
+  const base = preprocessImage(source, preprocess, createLayer);
+  const canvas = createCanvas(base.width, base.height);
+  const ctx = canvas.getContext('2d') as unknown as Canvas2DLike<Drawable>;
+  const fonts = registerFonts(layers);
+  try {
+    renderWatermarkedImage(ctx, base, fonts.layers, { getLogo: src => logos.get(src) ?? null, metadata, createLayer });
+  } finally {
+    fonts.release();
+  }
+
+  const output = prepareOutput(canvas, options);
+  const format = getFormatInfo(options.format);
+  return {
+    data: await encode(output, options),
+    filename: resolveFilename(options.filenameTemplate, {
+      name: getBaseName(fileName),
+      ext: format.ext,
+      index,
+      width: output.width,
+      height: output.height,
+    }),
+    mime: format.mime,
+    width: output.width,
+    height: output.height,
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { createCanvas } from '@napi-rs/canvas';
+import { createServer } from './app';
+import { createPresetStore } from './presetStore';
+
+const store = createPresetStore(':memory:');
+const server = createServer(store, { maxUploadBytes: 1024 * 1024, maxPixels: 1_000_000, maxJsonBytes: 1024 * 1024 });
+const listener = server.listen(0, '127.0.0.1');
+let baseUrl = '';
+
+before(async () => {
+  if (!listener.listening) await new Promise(resolve => listener.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  listener.close();
+  store.close();
+});
+
+// A 100 × 10 strip, well inside the limit as uploaded
+const strip = createCanvas(100, 10).encodeSync('png');
+
+const postWatermark = (fields: Record<string, string>) => {
+  const form = new FormData();
+  form.append('image', new Blob([strip], { type: 'image/png' }), 'strip.png');
+  if (!fields.watermarks) form.append('watermarks', JSON.stringify([{ type: 'text', text: '样张' }]));
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return fetch(`${baseUrl}/api/watermark`, { method: 'POST', body: form });
+};
+
+describe('POST /api/watermark', () => {
+  it('watermarks an image resized within the pixel limit', async () => {
+    const res = await postWatermark({ preprocess: JSON.stringify({ width: 200 }) });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'image/png');
+  });
+
+  it('refuses pre-processing that resizes past the pixel limit', async () => {
+    const res = await postWatermark({ preprocess: JSON.stringify({ height: 16384 }) });
+    assert.equal(res.status, 413);
+    const body = await res.json() as { error: { code: string } };
+    assert.equal(body.error.code, 'IMAGE_TOO_LARGE');
+  });
+
+  it('refuses logos that decode past the pixel limit', async () => {
+    // A blank 2000 × 1000 PNG compresses to a few KB
+    const src = `data:image/png;base64,${createCanvas(2000, 1000).encodeSync('png').toString('base64')}`;
+    const res = await postWatermark({ watermarks: JSON.stringify([{ type: 'image', src }]) });
+    assert.equal(res.status, 413);
+    const body = await res.json() as { error: { code: string } };
+    assert.equal(body.error.code, 'IMAGE_TOO_LARGE');
+  });
+});
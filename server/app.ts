@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { type ErrorRequestHandler, type RequestHandler } from 'express';
+import multer from 'multer';
+import { DEFAULT_EXPORT_OPTIONS, type ExportFormat, type ExportOptions } from '../src/export';
+import { DEFAULT_PREPROCESS, normalizePreprocess, type Preprocess } from '../src/preprocess';
+import { PRESET_VERSION, migratePreset, parsePresetFile, type Preset } from '../src/presets';
+import type { Watermark } from '../src/watermark';
+import { ImageTooLargeError, loadLogos, renderImageFile } from '../node/render';
+import type { PresetStore } from './presetStore';
+
+/**
+ * Local HTTP service for CMS integrations. Every error is answered as
+ * { "error": { "code": "...", "message": "..." } } with a matching status.
+ */
+
+export interface ServerLimits {
+  maxUploadBytes: number;
+  maxPixels: number;
+  maxJsonBytes: number;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+// Express 4 does not forward rejected promises to the error handler by itself
+const handleAsync = (handler: RequestHandler): RequestHandler => (req, res, next) => {
+  Promise.resolve(handler(req, res, next)).catch(next);
+};
+
+// Form fields arrive as strings, JSON bodies as values
+const parseJsonField = (raw: unknown, field: string, code: string) => {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, code, `${field} 不是有效的 JSON`);
+  }
+};
+
+const parsePreprocess = (raw: unknown): Preprocess => {
+  const data = parseJsonField(raw, 'preprocess', 'INVALID_PREPROCESS');
+  if (typeof data !== 'object' || data === null) {
+    throw new HttpError(400, 'INVALID_PREPROCESS', 'preprocess 必须是对象');
+  }
+  return normalizePreprocess(data);
+};
+
+// The layers, plus the pre-processing when they come as an exported preset file
+const parseLayers = (raw: unknown): Pick<Preset, 'watermarks' | 'preprocess'> => {
+  const data = parseJsonField(raw, 'watermarks', 'INVALID_WATERMARKS');
+
+  try {
+    // A full exported preset file is accepted too; its first preset is used
+    if (typeof data === 'object' && data !== null && 'format' in data) {
+      const [preset] = parsePresetFile(JSON.stringify(data));
+      if (!preset) throw new Error('预设文件是空的');
+      return { watermarks: preset.watermarks, preprocess: preset.preprocess };
+    }
+    return { watermarks: migratePreset({ watermarks: data }, PRESET_VERSION).watermarks };
+  } catch (err) {
+    throw new HttpError(400, 'INVALID_WATERMARKS', err instanceof Error ? err.message : '水印格式不正确');
+  }
+};
+
+const parseExportOptions = (body: Record<string, unknown>): ExportOptions => {
+  const format = (body.format ?? DEFAULT_EXPORT_OPTIONS.format) as string;
+  if (!['png', 'jpeg', 'webp'].includes(format)) {
+    throw new HttpError(400, 'INVALID_FORMAT', `不支持的格式: ${format}`);
+  }
+  return {
+    format: format as ExportFormat,
+    quality: Math.min(1, Math.max(0, Number(body.quality) || DEFAULT_EXPORT_OPTIONS.quality)),
+    maxEdge: Math.max(0, parseInt(String(body.maxEdge)) || 0),
+    filenameTemplate: typeof body.filenameTemplate === 'string' ? body.filenameTemplate : DEFAULT_EXPORT_OPTIONS.filenameTemplate,
+    invisibleOwnerId: typeof body.ownerId === 'string' ? body.ownerId : '',
+    fadeInFrames: 0,
+  };
+};
+
+const parsePresetBody = (body: unknown) => {
+  if (typeof body !== 'object' || body === null) {
+    throw new HttpError(400, 'INVALID_PRESET', '请求体必须是 JSON 对象');
+  }
+  const { name, watermarks, preprocess } = body as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpError(400, 'INVALID_PRESET', '缺少预设名称');
+  }
+  const layout = parseLayers(watermarks);
+  // An explicit preprocess wins over the one inside a posted preset file
+  return { name: name.trim(), ...layout, ...(preprocess != null && { preprocess: parsePreprocess(preprocess) }) };
+};
+
+export const createServer = (store: PresetStore, limits: ServerLimits) => {
+  const app = express();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: limits.maxUploadBytes, files: 1, fieldSize: limits.maxJsonBytes },
+  });
+
+  app.use(express.json({ limit: limits.maxJsonBytes }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.get('/api/presets', (_req, res) => {
+    res.json({ presets: store.list() });
+  });
+
+  app.get('/api/presets/:id', (req, res) => {
+    const preset = store.get(req.params.id);
+    if (!preset) throw new HttpError(404, 'PRESET_NOT_FOUND', '预设不存在');
+    res.json({ preset });
+  });
+
+  app.post('/api/presets', (req, res) => {
+    res.status(201).json({ preset: store.save(parsePresetBody(req.body)) });
+  });
+
+  app.put('/api/presets/:id', (req, res) => {
+    if (!store.get(req.params.id)) throw new HttpError(404, 'PRESET_NOT_FOUND', '预设不存在');
+    res.json({ preset: store.save({ id: req.params.id, ...parsePresetBody(req.body) }) });
+  });
+
+  app.delete('/api/presets/:id', (req, res) => {
+    if (!store.delete(req.params.id)) throw new HttpError(404, 'PRESET_NOT_FOUND', '预设不存在');
+    res.status(204).end();
+  });
+
+  /**
+   * multipart/form-data fields:
+   *   image       the picture to watermark (required)
+   *   watermarks  Watermark[] JSON or an exported preset file, or
+   *   presetId    id of a stored preset
+   *   preprocess  crop, orientation and resize JSON; defaults to the preset's
+   *   format, quality, maxEdge, filenameTemplate  same as the export dialog
+   *   ownerId     embeds the invisible ownership mark
+   */
+  app.post('/api/watermark', upload.single('image'), handleAsync(async (req, res) => {
+    const file = req.file;
+    if (!file) throw new HttpError(400, 'MISSING_IMAGE', '缺少 image 文件字段');
+    if (!file.mimetype.startsWith('image/')) {
+      throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', `不支持的文件类型: ${file.mimetype}`);
+    }
+
+    let layers: Watermark[];
+    let preprocess: Preprocess | undefined;
+    if (req.body.presetId) {
+      const preset = store.get(String(req.body.presetId));
+      if (!preset) throw new HttpError(404, 'PRESET_NOT_FOUND', '预设不存在');
+      ({ watermarks: layers, preprocess } = preset);
+    } else if (req.body.watermarks) {
+      ({ watermarks: layers, preprocess } = parseLayers(req.body.watermarks));
+    } else {
+      throw new HttpError(400, 'MISSING_WATERMARKS', '需要 watermarks 或 presetId');
+    }
+    if (req.body.preprocess) preprocess = parsePreprocess(req.body.preprocess);
+
+    const options = parseExportOptions(req.body);
+    // Multer decodes the client filename as latin1
+    const fileName = Buffer.from(file.originalname, 'latin1').toString('utf8');
+
+    const renderLimits = { maxPixels: limits.maxPixels };
+    let rendered;
+    try {
+      const logos = await loadLogos(layers, renderLimits);
+      rendered = await renderImageFile(file.buffer, fileName, Date.now(), layers, preprocess ?? DEFAULT_PREPROCESS, logos, options, 1, renderLimits);
+    } catch (err) {
+      if (err instanceof ImageTooLargeError) throw new HttpError(413, 'IMAGE_TOO_LARGE', err.message);
+      // Decoder and canvas messages say nothing useful to a client, so they only go to the log
+      console.error(err);
+      throw new HttpError(422, 'RENDER_FAILED', '图片处理失败，请确认文件是完整的图片');
+    }
+
+    res.type(rendered.mime);
+    res.attachment(rendered.filename);
+    res.send(rendered.data);
+  }));
+
+  app.use('/api', (_req, _res, next) => {
+    next(new HttpError(404, 'NOT_FOUND', '接口不存在'));
+  });
+
+  const handleError: ErrorRequestHandler = (err, _req, res, _next) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === 'LIMIT_FILE_SIZE' || err.code === 'LIMIT_FIELD_VALUE' ? 413 : 400;
+      res.status(status).json({ error: { code: err.code, message: err.message } });
+      return;
+    }
+    // body-parser errors carry their own status (413 for oversized JSON, 400 for syntax)
+    if (err?.type === 'entity.too.large' || err?.type === 'entity.parse.failed') {
+      res.status(err.status).json({ error: { code: err.type === 'entity.too.large' ? 'PAYLOAD_TOO_LARGE' : 'INVALID_JSON', message: err.message } });
+      return;
+    }
+    if (err instanceof HttpError) {
+      res.status(err.status).json({ error: { code: err.code, message: err.message } });
+      return;
+    }
+    console.error(err);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: '服务器内部错误' } });
+  };
+  app.use(handleError);
+
+  return app;
+};
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import { createServer } from './app';
+import { createPresetStore } from './presetStore';
+
+const port = Number(process.env.PORT) || 3001;
+const store = createPresetStore(process.env.WATERMARK_DB || 'data/watermark.db');
+const app = createServer(store, {
+  maxUploadBytes: (Number(process.env.MAX_UPLOAD_MB) || 25) * 1024 * 1024,
+  maxPixels: (Number(process.env.MAX_MEGAPIXELS) || 100) * 1_000_000,
+  maxJsonBytes: 10 * 1024 * 1024,
+});
+
+app.listen(port, () => {
+  console.log(`浅香水印服务已启动: http://localhost:${port}`);
+});
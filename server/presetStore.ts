@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { PRESET_VERSION, migratePreset, type Preset } from '../src/presets';
+import type { Preprocess } from '../src/preprocess';
+import { createId, type Watermark } from '../src/watermark';
+
+interface PresetRow {
+  id: string;
+  name: string;
+  version: number;
+  watermarks: string;
+  // JSON, null for presets that leave the photo as it is
+  preprocess: string | null;
+  updated_at: string;
+}
+
+/**
+ * Presets kept in SQLite. Each row remembers the preset format version it was
+ * written with, so rows from older releases go through the same migrations as
+ * imported preset files.
+ */
+export const createPresetStore = (file: string) => {
+  if (file !== ':memory:') mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS presets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      watermarks TEXT NOT NULL,
+      preprocess TEXT,
+      updated_at TEXT NOT NULL
+    )
+  `);
+  // Databases created before presets stored pre-processing
+  const columns = db.prepare<[], { name: string }>('PRAGMA table_info(presets)').all();
+  if (!columns.some(column => column.name === 'preprocess')) {
+    db.exec('ALTER TABLE presets ADD COLUMN preprocess TEXT');
+  }
+
+  const toPreset = (row: PresetRow): Preset => migratePreset({
+    id: row.id,
+    name: row.name,
+    updatedAt: row.updated_at,
+    watermarks: JSON.parse(row.watermarks),
+    ...(row.preprocess !== null && { preprocess: JSON.parse(row.preprocess) }),
+  }, row.version);
+
+  const selectAll = db.prepare<[], PresetRow>('SELECT * FROM presets ORDER BY updated_at DESC');
+  const selectOne = db.prepare<[string], PresetRow>('SELECT * FROM presets WHERE id = ?');
+  const upsert = db.prepare(`
+    INSERT INTO presets (id, name, version, watermarks, preprocess, updated_at)
+    VALUES (@id, @name, @version, @watermarks, @preprocess, @updatedAt)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      version = excluded.version,
+      watermarks = excluded.watermarks,
+      preprocess = excluded.preprocess,
+      updated_at = excluded.updated_at
+  `);
+  const remove = db.prepare<[string]>('DELETE FROM presets WHERE id = ?');
+
+  const save = (preset: { id?: string; name: string; watermarks: Watermark[]; preprocess?: Preprocess }): Preset => {
+    const saved: Preset = {
+      id: preset.id ?? createId(),
+      name: preset.name,
+      updatedAt: new Date().toISOString(),
+      watermarks: preset.watermarks,
+      ...(preset.preprocess && { preprocess: preset.preprocess }),
+    };
+    upsert.run({
+      ...saved,
+      version: PRESET_VERSION,
+      watermarks: JSON.stringify(saved.watermarks),
+      preprocess: saved.preprocess ? JSON.stringify(saved.preprocess) : null,
+    });
+    return saved;
+  };
+
+  return {
+    list: () => selectAll.all().map(toPreset),
+    get: (id: string) => {
+      const row = selectOne.get(id);
+      return row ? toPreset(row) : null;
+    },
+    save,
+    delete: (id: string) => remove.run(id).changes > 0,
+    close: () => db.close(),
+  };
+};
+
+export type PresetStore = ReturnType<typeof createPresetStore>;
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   Upload, 
   Download, 
@@ -14,232 +14,1213 @@ import {
   Trash2, 
   Image as ImageIcon,
   Settings2,
+  ChevronLeft,
   ChevronRight,
   LayoutGrid,
   Plus,
-  Layers
+  Layers,
+  ImagePlus,
+  Archive,
+  X,
+  Bookmark,
+  Save,
+  Star,
+  FileUp,
+  FileDown,
+  Undo2,
+  Redo2,
+  ShieldCheck,
+  Sparkles,
+  FolderSync,
+  Eye,
+  EyeOff,
+  Lock,
+  LockOpen,
+  Copy,
+  GripVertical,
+  Crop,
+  Users
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import { Zip, ZipPassThrough } from 'fflate';
+import {
+  ANCHOR_POSITIONS,
+  BASE_DEFAULTS,
+  BLEND_MODES,
+  DEFAULT_MARGINS,
+  DEFAULT_TILE_GAPS,
+  DEFAULT_WATERMARKS,
+  IMAGE_DEFAULTS,
+  IMAGE_RELATIVE_SIZE,
+  TEXT_DEFAULTS,
+  ANCHOR_LABELS,
+  createId,
+  getLayerName,
+  type AutoColorStyle,
+  type BlendMode,
+  type ColorMode,
+  type ImageWatermark,
+  type Layout,
+  type MarginUnit,
+  type SizeMode,
+  type TextWatermark,
+  type Watermark,
+  type WatermarkEffect,
+} from './watermark';
+import {
+  loadDefaultPresetId,
+  loadStartupPreset,
+  loadStoredPresets,
+  parsePresetFile,
+  saveDefaultPresetId,
+  saveStoredPresets,
+  serializePresets,
+  type Preset,
+} from './presets';
+import {
+  downloadBlob,
+  encodeCanvas,
+  getBaseName,
+  getFormatInfo,
+  getOutputSize,
+  loadExportOptions,
+  makeUniqueName,
+  resolveFilename,
+  saveExportOptions,
+  type ExportOptions,
+} from './export';
+import ExportDialog from './ExportDialog';
+import VerifyDialog from './VerifyDialog';
+import SuggestionsDialog from './SuggestionsDialog';
+import type { SuggestionRequest } from './suggestions';
+import HotFolderDialog from './HotFolderDialog';
+import PersonalizeDialog from './PersonalizeDialog';
+import {
+  createPersonalization,
+  hashBytes,
+  loadPersonalizeSettings,
+  manifestToCsv,
+  manifestToJson,
+  parseRecipients,
+  savePersonalizeSettings,
+  toFolderName,
+  type ManifestEntry,
+  type PersonalizeSettings,
+  type Personalization,
+} from './personalize';
+import { useHotFolder } from './useHotFolder';
+import { useHistory } from './useHistory';
+import { orientImage, readImageMetadata, type ImageMetadata } from './exif';
+import { TEXT_VARIABLES, hasTextVariables, resolveText } from './textVariables';
+import { convertMarginUnit, convertSizeMode, convertTileGapUnit, getWatermarkBox, renderPreview, renderWatermarkedImage, resolveSmartPositions } from './render';
+import { PREVIEW_MAX_EDGE, createPreviewImage, type PreviewImage } from './preview';
+import { watermarkAnimation } from './animation';
+import { detectAnimation, type AnimationInfo } from './animationInfo';
+import { getPdfPageFrame, isPdfFile, loadPdf, parsePageRanges, renderPdfPage, watermarkPdf } from './pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { computeSaliency, type SaliencyMap } from './saliency';
+import SaliencyOverlay from './SaliencyOverlay';
+import PreviewViewport from './PreviewViewport';
+import {
+  EXPORT_STAGES,
+  ExportCancelledError,
+  WorkerUnsupportedError,
+  cancelExports,
+  canExportInWorker,
+  renderInWorker,
+  type ExportResult,
+  type ExportStage,
+} from './exportClient';
+import SelectionOverlay, { type LayerBox } from './SelectionOverlay';
+import CropOverlay from './CropOverlay';
+import PreprocessControls from './PreprocessControls';
+import {
+  DEFAULT_PREPROCESS,
+  FULL_CROP,
+  getCropPixels,
+  getCropRatio,
+  getOrientationOnly,
+  getOrientedFrame,
+  isIdentityPreprocess,
+  preprocessImage,
+  resolvePreprocess,
+  toCropRect,
+  type CropAspect,
+  type CropRect,
+  type Preprocess,
+} from './preprocess';
+import { ensureFontsLoaded, getFontFamilyName, getUploadedFonts, loadFontFace } from './fonts';
+import TextStyleControls from './TextStyleControls';
 
-type Position = 'top-left' | 'top-center' | 'top-right' | 'center' | 'bottom-left' | 'bottom-center' | 'bottom-right' | 'custom';
+const readFileAsDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
-interface Watermark {
+interface BatchItem {
   id: string;
-  text: string;
-  fontSize: number;
-  color: string;
-  opacity: number;
-  position: Position;
-  customX: number;
-  customY: number;
-  rotation: number;
+  file: File;
+  // Object URL of the original file; decoded on demand to keep hundreds of photos out of memory
+  url: string;
+  thumbnail: string | null;
+  metadata: ImageMetadata;
+  // Set for animated GIFs and APNGs, which are exported frame by frame
+  animation: AnimationInfo | null;
 }
 
+// One file to render: a batch image, optionally personalized for a recipient
+interface ExportTask {
+  item: BatchItem;
+  personalization?: Personalization;
+}
+
+// Everything undo/redo covers: the shared layout plus per-image copies keyed by batch item id,
+// and the pre-processing every image gets before the layers are laid out
+interface WatermarkLayout {
+  shared: Watermark[];
+  overrides: Record<string, Watermark[]>;
+  preprocess: Preprocess;
+}
+
+// Layer rows carry their id under this type, so they are told apart from dropped files
+const LAYER_DRAG_TYPE = 'application/x-qianxiang-layer';
+
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`无法加载图片: ${src}`));
+    img.src = src;
+  });
+
+// Decodes a batch item upright, whatever its EXIF orientation
+const loadItemImage = async (item: BatchItem) => orientImage(await loadImage(item.url), item.metadata.orientation);
+
+const createThumbnail = (img: HTMLImageElement | HTMLCanvasElement, size = 160) => {
+  const ratio = Math.min(1, size / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * ratio));
+  canvas.height = Math.max(1, Math.round(img.height * ratio));
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Streams files into a ZIP as they are exported. Each chunk goes into its own Blob right away,
+ * which the browser may keep out of the JS heap, so a large batch is never held twice.
+ * Images are already compressed, so entries are stored rather than deflated.
+ */
+const createZipWriter = () => {
+  const parts: Blob[] = [];
+  let archive!: Zip;
+  const done = new Promise<Blob>((resolve, reject) => {
+    archive = new Zip((err, chunk, final) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      parts.push(new Blob([chunk]));
+      if (final) resolve(new Blob(parts, { type: 'application/zip' }));
+    });
+  });
+  return {
+    add: (filename: string, data: Uint8Array) => {
+      const entry = new ZipPassThrough(filename);
+      archive.add(entry);
+      entry.push(data, true);
+    },
+    finish: () => {
+      archive.end();
+      return done;
+    },
+  };
+};
+
 export default function App() {
-  const [image, setImage] = useState<HTMLImageElement | null>(null);
-  const [watermarks, setWatermarks] = useState<Watermark[]>([
-    {
-      id: '1',
-      text: '水印文字',
-      fontSize: 40,
-      color: '#ffffff',
-      opacity: 0.5,
-      position: 'bottom-right',
-      customX: 50,
-      customY: 50,
-      rotation: 0,
-    }
-  ]);
-  const [selectedId, setSelectedId] = useState<string | null>('1');
+  // The active image as shown in the editor: full-size frame plus a downscaled bitmap to draw
+  const [image, setImage] = useState<PreviewImage | null>(null);
+  const layoutHistory = useHistory<WatermarkLayout>(() => {
+    const startup = loadStartupPreset();
+    return {
+      shared: startup?.watermarks ?? DEFAULT_WATERMARKS,
+      overrides: {},
+      preprocess: startup?.preprocess ?? DEFAULT_PREPROCESS,
+    };
+  });
+  const { shared: watermarks, overrides, preprocess } = layoutHistory.present;
+  // Upright decode of the active image; the preview is drawn from it with the pre-processing applied
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  // While set the preview shows the whole rotated image with the crop tool instead of the layers
+  const [cropping, setCropping] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(() => watermarks[0]?.id ?? null);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  // done counts whole images plus the finished share of the current one
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number; current: string } | null>(null);
+  const cancelExportRef = useRef(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [isDroppingFiles, setIsDroppingFiles] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>(loadStoredPresets);
+  const [defaultPresetId, setDefaultPresetId] = useState<string | null>(loadDefaultPresetId);
+  const [presetName, setPresetName] = useState('');
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(loadExportOptions);
+  const [exportDialog, setExportDialog] = useState<'single' | 'batch' | null>(null);
+  const [showVerify, setShowVerify] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showHotFolder, setShowHotFolder] = useState(false);
+  const [showPersonalize, setShowPersonalize] = useState(false);
+  const [personalizeSettings, setPersonalizeSettings] = useState<PersonalizeSettings>(loadPersonalizeSettings);
+  // PDF documents: the previewed page (0-based) and, per batch item id, the pages that get
+  // watermarks, empty for all. Documents differ in length, so one range can't serve a batch
+  const [pdfPage, setPdfPage] = useState(0);
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+  const [pdfPageRanges, setPdfPageRanges] = useState<Record<string, string>>({});
+  // Screen px per frame px in the preview viewport
+  const [viewScale, setViewScale] = useState(1);
+  // Set once the preview is zoomed past its bitmap's resolution; the full-size image is decoded then
+  const [fullResolution, setFullResolution] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const logoTargetId = useRef<string | null>(null);
+  const textInputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Decoded logo bitmaps keyed by data URL; bump logoVersion to redraw once one finishes loading
+  const logoCache = useRef<Map<string, HTMLImageElement>>(new Map());
+  const [logoVersion, setLogoVersion] = useState(0);
+
+  const getLogoImage = (src: string) => {
+    const cached = logoCache.current.get(src);
+    if (cached) return cached.complete && cached.naturalWidth + cached.naturalHeight > 0 ? cached : null;
+
+    const img = new Image();
+    img.onload = () => setLogoVersion(v => v + 1);
+    img.src = src;
+    logoCache.current.set(src, img);
+    return null;
+  };
+
+  // Parsed PDFs keyed by item URL, so paging through a document doesn't reparse it
+  const pdfDocs = useRef<Map<string, Promise<PDFDocumentProxy>>>(new Map());
+
+  const getPdfDoc = (item: BatchItem) => {
+    let doc = pdfDocs.current.get(item.url);
+    if (!doc) {
+      doc = loadPdf(item.file);
+      pdfDocs.current.set(item.url, doc);
+    }
+    return doc;
+  };
+
+  const closePdfDoc = (url: string) => {
+    pdfDocs.current.get(url)?.then(doc => doc.destroy(), () => {});
+    pdfDocs.current.delete(url);
+  };
+
+  const ensureLogosLoaded = (layers: Watermark[]) =>
+    Promise.all(layers.map(async wm => {
+      if (wm.type !== 'image' || logoCache.current.get(wm.src)?.complete) return;
+      logoCache.current.set(wm.src, await loadImage(wm.src));
+    }));
+
+  // Canvas text silently falls back while a font loads, so redraw once it is ready
+  const [fontVersion, setFontVersion] = useState(0);
+
+  const activeItem = batch.find(item => item.id === activeItemId) ?? null;
+  const pdfPageRange = (activeItem && pdfPageRanges[activeItem.id]) ?? '';
+
+  const activeOverride = activeItem ? overrides[activeItem.id] : undefined;
+
+  // Edits go to the active image's own layout when it has one, otherwise to the shared layout
+  const currentWatermarks = activeOverride ?? watermarks;
+  const setCurrentWatermarks = (updater: (prev: Watermark[]) => Watermark[], coalesceKey?: string) => {
+    const itemId = activeOverride && activeItem?.id;
+    layoutHistory.set(prev => itemId && prev.overrides[itemId]
+      ? { ...prev, overrides: { ...prev.overrides, [itemId]: updater(prev.overrides[itemId]) } }
+      : { ...prev, shared: updater(prev.shared) }, coalesceKey);
+  };
+
+  const toggleItemOverride = (itemId: string) => {
+    layoutHistory.set(prev => {
+      const { [itemId]: current, ...rest } = prev.overrides;
+      return current
+        ? { ...prev, overrides: rest }
+        : { ...prev, overrides: { ...prev.overrides, [itemId]: prev.shared } };
+    });
+  };
+
+  const updatePreprocess = (updates: Partial<Preprocess>, coalesceKey?: string) => {
+    layoutHistory.set(prev => ({ ...prev, preprocess: { ...prev.preprocess, ...updates } }), coalesceKey);
+  };
+
+  // The crop is refitted to the new ratio right away, so the crop tool starts from what the preview shows
+  const changeCropAspect = (aspect: CropAspect, size?: { width: number; height: number }) => {
+    layoutHistory.set(prev => {
+      const next: Preprocess = {
+        ...prev.preprocess,
+        aspect,
+        // Leaving 'original' starts from the whole image rather than a crop the preview no longer showed
+        crop: prev.preprocess.aspect === 'original' ? FULL_CROP : prev.preprocess.crop,
+        ...size,
+      };
+      if (sourceImage && aspect !== 'original') {
+        next.crop = toCropRect(getCropPixels(sourceImage, next), getOrientedFrame(sourceImage, next.rotation));
+      }
+      return { ...prev, preprocess: next };
+    });
+  };
+
+  const toggleCropping = () => {
+    if (!cropping && preprocess.aspect === 'original') changeCropAspect('free');
+    setCropping(!cropping);
+  };
+
+  // The uncut, rotated image the crop tool works on; the preview switches to it a moment after cropping starts
+  const cropFrame = cropping && sourceImage ? getOrientedFrame(sourceImage, preprocess.rotation) : null;
+
+  // Crop tool drags arrive in oriented px of the active image
+  const handleCropChange = (rect: CropRect) => {
+    if (!sourceImage) return;
+    updatePreprocess({ crop: toCropRect(rect, getOrientedFrame(sourceImage, preprocess.rotation)) }, 'preprocess:crop');
+  };
+
+  // A pointer release ends the current slider or canvas drag, so the next one gets its own undo step.
+  // Releasing a key does the same for arrow-key nudges and keyboard slider changes; typing in a
+  // text field stays one step until the field loses focus.
+  useEffect(() => {
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLTextAreaElement || target.isContentEditable) return;
+      if (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'color'].includes(target.type)) return;
+      layoutHistory.checkpoint();
+    };
+    window.addEventListener('pointerup', layoutHistory.checkpoint);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('focusout', layoutHistory.checkpoint);
+    window.addEventListener('blur', layoutHistory.checkpoint);
+    return () => {
+      window.removeEventListener('pointerup', layoutHistory.checkpoint);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('focusout', layoutHistory.checkpoint);
+      window.removeEventListener('blur', layoutHistory.checkpoint);
+    };
+  }, [layoutHistory.checkpoint]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own native undo
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type === 'text') return;
+      if (target instanceof HTMLTextAreaElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        layoutHistory.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        layoutHistory.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [layoutHistory.undo, layoutHistory.redo]);
 
   const canvasCallbackRef = useCallback((node: HTMLCanvasElement | null) => {
     if (node !== null) {
       canvasRef.current = node;
       drawCanvas();
     }
-  }, [image, watermarks]);
+  }, [image, currentWatermarks, logoVersion, fontVersion]);
+
+  const selectedWatermark = currentWatermarks.find(w => w.id === selectedId);
+
+  // Repeated edits of the same fields (a slider drag, typing) coalesce into one undo step by default
+  const updateWatermark = (
+    id: string,
+    updates: Partial<TextWatermark> | Partial<ImageWatermark>,
+    coalesceKey = `${id}:${Object.keys(updates).sort().join(',')}`
+  ) => {
+    setCurrentWatermarks(prev => prev.map(w => w.id === id ? { ...w, ...updates } as Watermark : w), coalesceKey);
+  };
+
+  const updateSelectedWatermark = (updates: Partial<TextWatermark> | Partial<ImageWatermark>, coalesceKey?: string) => {
+    if (selectedId) updateWatermark(selectedId, updates, coalesceKey);
+  };
+
+  const changeSizeMode = (mode: SizeMode) => {
+    if (!selectedWatermark || selectedWatermark.sizeMode === mode) return;
+    const logo = selectedWatermark.type === 'image' ? getLogoImage(selectedWatermark.src) : null;
+    // Without a photo there is no current look to preserve, so only the mode changes
+    updateSelectedWatermark(image ? convertSizeMode(image, selectedWatermark, mode, logo) : { sizeMode: mode });
+  };
 
-  const selectedWatermark = watermarks.find(w => w.id === selectedId);
+  const changeMarginUnit = (unit: MarginUnit) => {
+    if (!selectedWatermark || selectedWatermark.marginUnit === unit) return;
+    updateSelectedWatermark(image
+      ? convertMarginUnit(image, selectedWatermark, unit)
+      : { marginUnit: unit, marginX: DEFAULT_MARGINS[unit], marginY: DEFAULT_MARGINS[unit] });
+  };
 
-  const updateSelectedWatermark = (updates: Partial<Watermark>) => {
-    if (!selectedId) return;
-    setWatermarks(prev => prev.map(w => w.id === selectedId ? { ...w, ...updates } : w));
+  const changeTileGapUnit = (unit: MarginUnit) => {
+    if (!selectedWatermark || selectedWatermark.tileGapUnit === unit) return;
+    const converted = image && measureContext
+      ? convertTileGapUnit(measureContext, image, selectedWatermark, unit, measureOptions)
+      : null;
+    updateSelectedWatermark(converted ?? { tileGapUnit: unit, ...DEFAULT_TILE_GAPS[unit] });
   };
 
   const addWatermark = () => {
-    const newId = Math.random().toString(36).substr(2, 9);
+    const newId = createId();
+    const newWatermark: Watermark = {
+      id: newId,
+      ...BASE_DEFAULTS,
+      ...TEXT_DEFAULTS,
+    };
+    setCurrentWatermarks(prev => [...prev, newWatermark]);
+    setSelectedId(newId);
+  };
+
+  const applySuggestion = (watermark: Watermark) => {
+    setCurrentWatermarks(prev => [...prev, watermark]);
+    setSelectedId(watermark.id);
+  };
+
+  // Providers see a small JPEG: enough to find the subject, cheap to upload
+  const createSuggestionRequest = (): SuggestionRequest => {
+    const { width, height } = getOutputSize(image!.width, image!.height, 768);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(image!.proxy, 0, 0, width, height);
+    return {
+      image: canvas.toDataURL('image/jpeg', 0.8),
+      width: image!.width,
+      height: image!.height,
+      metadata: activeItem?.metadata ?? null,
+      existing: currentWatermarks,
+    };
+  };
+
+  // Inserts a {variable} token at the caret of the text field
+  const insertTextVariable = (token: string) => {
+    if (selectedWatermark?.type !== 'text') return;
+    const input = textInputRef.current;
+    const text = selectedWatermark.text;
+    const start = input?.selectionStart ?? text.length;
+    const end = input?.selectionEnd ?? text.length;
+    updateSelectedWatermark({ text: text.slice(0, start) + token + text.slice(end) });
+
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleFontUpload = async (file: File) => {
+    const fontSrc = await readFileAsDataURL(file);
+    const fontFamily = getFontFamilyName(file.name);
+    if (!await loadFontFace(fontFamily, fontSrc)) {
+      alert('无法加载该字体文件，请使用 TTF、OTF 或 WOFF 格式');
+      return;
+    }
+    updateSelectedWatermark({ fontFamily, fontSrc });
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const src = await readFileAsDataURL(file);
+
+    // Replace the logo of an existing image layer, otherwise add a new one
+    const targetId = logoTargetId.current;
+    if (targetId) {
+      setCurrentWatermarks(prev => prev.map(w => w.id === targetId && w.type === 'image' ? { ...w, src, name: file.name } : w));
+      return;
+    }
+
+    const newId = createId();
     const newWatermark: Watermark = {
       id: newId,
-      text: '新水印',
-      fontSize: 40,
-      color: '#ffffff',
-      opacity: 0.5,
-      position: 'center',
-      customX: 50,
-      customY: 50,
-      rotation: 0,
+      ...BASE_DEFAULTS,
+      ...IMAGE_DEFAULTS,
+      relativeSize: IMAGE_RELATIVE_SIZE,
+      src,
+      name: file.name,
+      opacity: 0.8,
+      position: 'bottom-right',
     };
-    setWatermarks(prev => [...prev, newWatermark]);
+    setCurrentWatermarks(prev => [...prev, newWatermark]);
     setSelectedId(newId);
   };
 
+  useEffect(() => {
+    saveStoredPresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveDefaultPresetId(defaultPresetId);
+  }, [defaultPresetId]);
+
+  const savePreset = () => {
+    const name = presetName.trim() || `预设 ${presets.length + 1}`;
+    const updatedAt = new Date().toISOString();
+    const existing = presets.find(p => p.name === name);
+
+    // Saving under an existing name overwrites that preset
+    if (existing) {
+      setPresets(prev => prev.map(p => p.id === existing.id ? { ...p, updatedAt, watermarks: currentWatermarks, preprocess } : p));
+    } else {
+      setPresets(prev => [...prev, { id: createId(), name, updatedAt, watermarks: currentWatermarks, preprocess }]);
+    }
+    setPresetName('');
+  };
+
+  const applyPreset = (preset: Preset) => {
+    // Layers and pre-processing share a coalesce key, so undo restores both in one step
+    const coalesceKey = `preset:${createId()}`;
+    setCurrentWatermarks(() => preset.watermarks, coalesceKey);
+    layoutHistory.set(prev => ({ ...prev, preprocess: preset.preprocess ?? DEFAULT_PREPROCESS }), coalesceKey);
+    setSelectedId(preset.watermarks[0]?.id ?? null);
+  };
+
+  const deletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    if (defaultPresetId === id) setDefaultPresetId(null);
+  };
+
+  const exportPresets = () => {
+    const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+    downloadBlob(blob, '水印预设.json');
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await file.text());
+      // Re-importing a shared file replaces presets with the same id instead of duplicating them
+      setPresets(prev => [
+        ...prev.filter(p => !imported.some(i => i.id === p.id)),
+        ...imported,
+      ]);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '导入失败');
+    }
+  };
+
   const deleteWatermark = (id: string) => {
-    setWatermarks(prev => prev.filter(w => w.id !== id));
+    setCurrentWatermarks(prev => prev.filter(w => w.id !== id));
     if (selectedId === id) {
-      setSelectedId(watermarks.find(w => w.id !== id)?.id || null);
+      setSelectedId(currentWatermarks.find(w => w.id !== id)?.id || null);
     }
   };
 
-  // Helper to get coordinates relative to canvas
-  const getCanvasCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
+  // The copy goes right above the original in draw order and keeps its name
+  const duplicateWatermark = (id: string) => {
+    const source = currentWatermarks.find(w => w.id === id);
+    if (!source) return;
+    const copy = { ...source, id: createId() };
+    setCurrentWatermarks(prev => {
+      const index = prev.findIndex(w => w.id === id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    setSelectedId(copy.id);
+  };
 
-    const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
+  // Every toggle is its own undo step, unlike repeated edits through updateWatermark()
+  const toggleLayerFlag = (id: string, flag: 'hidden' | 'locked') => {
+    setCurrentWatermarks(prev => prev.map(w => w.id === id ? { ...w, [flag]: !w[flag] } : w));
+  };
 
-    // Calculate scale factor between canvas internal size and display size
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
+  // index counts slots between the layers before the move: 0 is the bottom, length the top
+  const moveWatermark = (id: string, index: number) => {
+    setCurrentWatermarks(prev => {
+      const from = prev.findIndex(w => w.id === id);
+      const to = index > from ? index - 1 : index;
+      if (from === -1 || to === from) return prev;
+      const next = prev.filter(w => w.id !== id);
+      next.splice(to, 0, prev[from]);
+      return next;
+    });
+  };
 
-    return {
-      x: (clientX - rect.left) * scaleX,
-      y: (clientY - rect.top) * scaleY
-    };
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // An empty name goes back to showing the text or file name
+  const commitRename = (id: string, value: string) => {
+    setRenamingId(null);
+    const label = value.trim();
+    const wm = currentWatermarks.find(w => w.id === id);
+    if (!wm || label === wm.label || label === getLayerName(wm)) return;
+    setCurrentWatermarks(prev => prev.map(w => w.id === id ? { ...w, label } : w));
+  };
+
+  const handleLayerDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!e.dataTransfer.types.includes(LAYER_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
   };
 
-  const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!image || !selectedId) return;
-    setIsDragging(true);
-    updateSelectedWatermark({ position: 'custom' });
-    handleMove(e);
+  const handleLayerDrop = (e: React.DragEvent) => {
+    const id = e.dataTransfer.getData(LAYER_DRAG_TYPE);
+    if (!id || dropIndex === null) return;
+    e.preventDefault();
+    moveWatermark(id, dropIndex);
+    setDropIndex(null);
   };
 
-  const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDragging || !image || !canvasRef.current || !selectedId) return;
-    
-    const { x, y } = getCanvasCoordinates(e);
-    
-    // Convert to percentage
-    const pX = Math.max(0, Math.min(100, (x / canvasRef.current.width) * 100));
-    const pY = Math.max(0, Math.min(100, (y / canvasRef.current.height) * 100));
-    
-    updateSelectedWatermark({ customX: pX, customY: pY });
+  // Canvas gestures from the selection overlay; sizes scale from their value when the drag began
+  const gestureLayer = useRef<Watermark | null>(null);
+
+  const handleGestureStart = (id: string) => {
+    layoutHistory.checkpoint();
+    gestureLayer.current = currentWatermarks.find(w => w.id === id) ?? null;
   };
 
-  const handleEnd = () => {
-    setIsDragging(false);
+  const handleOverlayMove = (id: string, x: number, y: number) => {
+    if (!image) return;
+    updateWatermark(id, {
+      position: 'custom',
+      customX: Math.max(0, Math.min(100, (x / image.width) * 100)),
+      customY: Math.max(0, Math.min(100, (y / image.height) * 100)),
+    }, `drag:${id}`);
+  };
+
+  const handleOverlayScale = (id: string, factor: number) => {
+    const start = gestureLayer.current;
+    if (start?.id !== id) return;
+    if (start.sizeMode !== 'px') {
+      updateWatermark(id, { relativeSize: Math.max(0.1, start.relativeSize * factor) }, `scale:${id}`);
+    } else if (start.type === 'text') {
+      updateWatermark(id, { fontSize: Math.max(1, Math.round(start.fontSize * factor)) }, `scale:${id}`);
+    } else {
+      updateWatermark(id, { scale: Math.max(0.01, start.scale * factor) }, `scale:${id}`);
+    }
+  };
+
+  const handleOverlayRotate = (id: string, rotation: number) => {
+    updateWatermark(id, { rotation }, `rotate:${id}`);
+  };
+
+  const addFiles = async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/') || isPdfFile(file));
+    // Only the header of each file is read, so this stays quick for large drops
+    const [metadataList, animations] = await Promise.all([
+      Promise.all(imageFiles.map(readImageMetadata)),
+      Promise.all(imageFiles.map(detectAnimation)),
+    ]);
+    const items: BatchItem[] = imageFiles.map((file, i) => ({
+      id: createId(),
+      file,
+      url: URL.createObjectURL(file),
+      thumbnail: null,
+      metadata: metadataList[i],
+      animation: animations[i],
+    }));
+    if (items.length === 0) return;
+
+    setBatch(prev => [...prev, ...items]);
+    setActiveItemId(prev => prev ?? items[0].id);
+
+    // Thumbnails are generated one at a time so a large drop doesn't decode everything at once
+    (async () => {
+      for (const item of items) {
+        try {
+          const thumbnail = createThumbnail(isPdfFile(item.file)
+            ? await renderPdfPage(await getPdfDoc(item), 0, 320)
+            : await loadItemImage(item));
+          setBatch(prev => prev.map(it => it.id === item.id ? { ...it, thumbnail } : it));
+        } catch {
+          // Undecodable files keep the placeholder thumbnail and fail again on export
+        }
+      }
+    })();
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => setImage(img);
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDroppingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const removeItem = (id: string) => {
+    const index = batch.findIndex(item => item.id === id);
+    const item = batch[index];
+    if (!item) return;
+
+    URL.revokeObjectURL(item.url);
+    closePdfDoc(item.url);
+    const rest = batch.filter(it => it.id !== id);
+    setBatch(rest);
+    if (activeItemId === id) {
+      setActiveItemId(rest[Math.min(index, rest.length - 1)]?.id ?? null);
     }
   };
 
+  // Decode only the image being previewed
+  useEffect(() => {
+    if (!activeItem) {
+      setImage(null);
+      setSourceImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    if (isPdfFile(activeItem.file)) {
+      setSourceImage(null);
+      // Layout happens on the page at export resolution, the preview draws a smaller rendering
+      getPdfDoc(activeItem).then(async doc => {
+        const page = Math.min(pdfPage, doc.numPages - 1);
+        const [frame, proxy] = await Promise.all([
+          getPdfPageFrame(doc, page),
+          renderPdfPage(doc, page, fullResolution ? Infinity : PREVIEW_MAX_EDGE),
+        ]);
+        if (cancelled) return;
+        setPdfPageCount(doc.numPages);
+        setImage({ proxy, ...frame });
+      }).catch(() => {});
+    } else {
+      setPdfPageCount(0);
+      loadItemImage(activeItem).then(img => {
+        if (!cancelled) setSourceImage(img);
+      }).catch(() => {});
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [activeItem?.url, pdfPage, fullResolution]);
+
+  // PDF pages are never pre-processed; the crop tool shows the image rotated and flipped but uncut
+  const previewPreprocess = cropping ? getOrientationOnly(preprocess) : preprocess;
+  const previewPreprocessKey = JSON.stringify(previewPreprocess);
+  useEffect(() => {
+    if (sourceImage) setImage(createPreviewImage(sourceImage, fullResolution ? Infinity : PREVIEW_MAX_EDGE, previewPreprocess));
+  }, [sourceImage, fullResolution, previewPreprocessKey]);
+
+  useEffect(() => {
+    setPdfPage(0);
+    setFullResolution(false);
+    if (!activeItem || isPdfFile(activeItem.file)) setCropping(false);
+  }, [activeItem?.url]);
+
+  useEffect(() => {
+    if (image && !fullResolution && image.proxy.width < image.width && viewScale * window.devicePixelRatio > (image.proxy.width / image.width) * 1.05) {
+      setFullResolution(true);
+    }
+  }, [image, viewScale]);
+
+  // Pages left out of the range are previewed bare, as they will be exported
+  const pdfPageSelection = useMemo(() => {
+    try {
+      return { pages: parsePageRanges(pdfPageRange, pdfPageCount), error: null };
+    } catch (err) {
+      return { pages: null, error: (err as Error).message };
+    }
+  }, [pdfPageRange, pdfPageCount]);
+  const pageExcluded = pdfPageCount > 0 && !!pdfPageSelection.pages && !pdfPageSelection.pages.has(pdfPage);
+  const previewWatermarks = pageExcluded || cropping ? [] : currentWatermarks;
+
+  // Redrawn on every edit, so it works on the small proxy; layout still happens in full-size frame px
   const drawCanvas = () => {
     const canvas = canvasRef.current;
-    if (!canvas || !image) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+
+    canvas.width = image.proxy.width;
+    canvas.height = image.proxy.height;
+    renderPreview<HTMLImageElement | HTMLCanvasElement>(ctx, image.proxy, image, previewWatermarks, {
+      getLogo: getLogoImage,
+      metadata: activeItem?.metadata ?? null,
+      createLayer,
+      saliency,
+    });
+  };
 
+  // Scratch canvases for effects that need to composite a layer on its own
+  const createLayer = (width: number, height: number) => {
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    return layer.getContext('2d')!;
+  };
+
+  // Busyness maps for smart placement, keyed by item URL (plus the page for PDFs, or the pre-processing).
+  // They are always computed from the preview-sized bitmap, so an export places smart layers exactly
+  // where the preview did.
+  const saliencyCache = useRef<Map<string, SaliencyMap>>(new Map());
+
+  const getSaliency = (url: string, proxy: HTMLImageElement | HTMLCanvasElement) => {
+    let map = saliencyCache.current.get(url);
+    if (!map) {
+      map = computeSaliency<HTMLImageElement | HTMLCanvasElement>(proxy, createLayer);
+      saliencyCache.current.set(url, map);
+    }
+    return map;
+  };
+
+  const getSaliencyKey = (url: string, pre: Preprocess) => isIdentityPreprocess(pre) ? url : `${url}|${JSON.stringify(pre)}`;
+
+  // Export-side lookup for a decoded image, hitting the map the preview made with the same settings
+  const getImageSaliency = (item: BatchItem, source: HTMLImageElement, pre: Preprocess) =>
+    getSaliency(getSaliencyKey(item.url, pre), createPreviewImage(source, PREVIEW_MAX_EDGE, pre).proxy);
+
+  const saliency = useMemo(() => {
+    if (!image || !activeItem || cropping) return null;
+    return getSaliency(pdfPageCount > 0 ? `${activeItem.url}#${pdfPage}` : getSaliencyKey(activeItem.url, preprocess), image.proxy);
+  }, [image]);
+
+  // Full-resolution render on the page, for browsers without OffscreenCanvas workers
+  const renderToCanvas = (
+    canvas: HTMLCanvasElement,
+    source: HTMLImageElement | HTMLCanvasElement,
+    layers: Watermark[],
+    metadata: ImageMetadata | null,
+    saliency: SaliencyMap | null,
+    personalization?: Personalization
+  ) => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     // Set canvas dimensions to match image
-    canvas.width = image.width;
-    canvas.height = image.height;
-
-    // Draw background image
-    ctx.drawImage(image, 0, 0);
-
-    // Draw each watermark
-    watermarks.forEach(wm => {
-      ctx.save();
-      
-      // Configure text style
-      ctx.font = `${wm.fontSize}px Inter, sans-serif`;
-      ctx.fillStyle = wm.color;
-      ctx.globalAlpha = wm.opacity;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-
-      // Calculate position
-      let x = 0;
-      let y = 0;
-      const padding = wm.fontSize;
-
-      switch (wm.position) {
-        case 'top-left':
-          x = padding + ctx.measureText(wm.text).width / 2;
-          y = padding;
-          ctx.textAlign = 'left';
-          break;
-        case 'top-center':
-          x = canvas.width / 2;
-          y = padding;
-          break;
-        case 'top-right':
-          x = canvas.width - padding - ctx.measureText(wm.text).width / 2;
-          y = padding;
-          ctx.textAlign = 'right';
-          break;
-        case 'center':
-          x = canvas.width / 2;
-          y = canvas.height / 2;
-          break;
-        case 'bottom-left':
-          x = padding + ctx.measureText(wm.text).width / 2;
-          y = canvas.height - padding;
-          ctx.textAlign = 'left';
-          break;
-        case 'bottom-center':
-          x = canvas.width / 2;
-          y = canvas.height - padding;
-          break;
-        case 'bottom-right':
-          x = canvas.width - padding - ctx.measureText(wm.text).width / 2;
-          y = canvas.height - padding;
-          ctx.textAlign = 'right';
-          break;
-        case 'custom':
-          x = (wm.customX / 100) * canvas.width;
-          y = (wm.customY / 100) * canvas.height;
-          break;
-      }
+    canvas.width = source.width;
+    canvas.height = source.height;
 
-      // Apply rotation
-      ctx.translate(x, y);
-      ctx.rotate((wm.rotation * Math.PI) / 180);
-      ctx.fillText(wm.text, 0, 0);
-      ctx.restore();
+    renderWatermarkedImage<HTMLImageElement | HTMLCanvasElement>(ctx, source, layers, {
+      getLogo: getLogoImage,
+      metadata,
+      createLayer,
+      saliency,
+      ...personalization,
     });
   };
 
   useEffect(() => {
     drawCanvas();
-  }, [image, watermarks]);
+  }, [image, previewWatermarks, logoVersion, fontVersion]);
 
-  const downloadImage = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const link = document.createElement('a');
-    link.download = '带水印的图片.png';
-    link.href = canvas.toDataURL('image/png');
-    link.click();
+  // Layout boxes for the selection overlay, measured on a scratch context so the preview is untouched
+  const measureContext = useMemo(() => document.createElement('canvas').getContext('2d'), []);
+  const measureOptions = { getLogo: getLogoImage, metadata: activeItem?.metadata ?? null, saliency };
+  const { layers: placedWatermarks, placements: smartPlacements } = image && measureContext
+    ? resolveSmartPositions(measureContext, image, previewWatermarks, measureOptions)
+    : { layers: previewWatermarks, placements: new Map() };
+  const selectedPlacement = selectedId ? smartPlacements.get(selectedId) ?? null : null;
+  const layerBoxes: LayerBox[] = image && measureContext
+    ? placedWatermarks.flatMap(wm => {
+      const box = getWatermarkBox(measureContext, image, wm, measureOptions);
+      return box ? [{ id: wm.id, box, locked: wm.locked }] : [];
+    })
+    : [];
+
+  // Arrow keys nudge the selected layer by one screen pixel at the current zoom, ten with Shift
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const direction = ARROW_DIRECTIONS[e.key];
+      const target = e.target as HTMLElement;
+      if (!direction || !image || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const layer = layerBoxes.find(l => l.id === selectedId);
+      if (!layer || layer.locked) return;
+      e.preventDefault();
+      const step = (e.shiftKey ? 10 : 1) / viewScale;
+      updateWatermark(layer.id, {
+        position: 'custom',
+        customX: Math.max(0, Math.min(100, ((layer.box.x + direction.x * step) / image.width) * 100)),
+        customY: Math.max(0, Math.min(100, ((layer.box.y + direction.y * step) / image.height) * 100)),
+      }, `nudge:${layer.id}`);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    ensureFontsLoaded(currentWatermarks).then(changed => {
+      if (changed && !cancelled) setFontVersion(v => v + 1);
+    });
+    return () => { cancelled = true; };
+  }, [currentWatermarks]);
+
+  useEffect(() => {
+    saveExportOptions(exportOptions);
+  }, [exportOptions]);
+
+  useEffect(() => {
+    savePersonalizeSettings(personalizeSettings);
+  }, [personalizeSettings]);
+
+  const getExportFilename = (sourceName: string, index: number, width: number, height: number, ext?: string) =>
+    resolveFilename(exportOptions.filenameTemplate, {
+      name: getBaseName(sourceName),
+      ext: ext ?? getFormatInfo(exportOptions.format).ext,
+      index,
+      ...getOutputSize(width, height, exportOptions.maxEdge),
+    });
+
+  /** Renders one image at full resolution, in the export worker where possible. */
+  const renderExport = async (
+    item: BatchItem,
+    layers: Watermark[],
+    pre: Preprocess,
+    onStage: (stage: ExportStage) => void,
+    personalization?: Personalization
+  ): Promise<ExportResult> => {
+    if (isPdfFile(item.file)) return renderPdfExport(item, layers, onStage, personalization);
+    if (item.animation) return renderAnimationExport(item, item.animation, layers, pre, onStage, personalization);
+
+    onStage('decode');
+    const [source] = await Promise.all([loadItemImage(item), ensureLogosLoaded(layers), ensureFontsLoaded(layers)]);
+    const itemSaliency = layers.some(wm => wm.position === 'smart') ? getImageSaliency(item, source, pre) : null;
+
+    if (canExportInWorker(layers)) {
+      const logoSources = [...new Set(layers.flatMap(wm => wm.type === 'image' ? [wm.src] : []))];
+      try {
+        return await renderInWorker({
+          source: await createImageBitmap(source),
+          logos: await Promise.all(logoSources.map(async src => [src, await createImageBitmap(logoCache.current.get(src)!)] as [string, ImageBitmap])),
+          layers,
+          preprocess: pre,
+          metadata: item.metadata,
+          saliency: itemSaliency,
+          ...personalization,
+          options: exportOptions,
+        }, onStage);
+      } catch (err) {
+        if (!(err instanceof WorkerUnsupportedError)) throw err;
+      }
+    }
+
+    onStage('render');
+    const canvas = document.createElement('canvas');
+    renderToCanvas(canvas, preprocessImage<HTMLImageElement | HTMLCanvasElement>(source, pre, createLayer), layers, item.metadata, itemSaliency, personalization);
+    onStage('encode');
+    return { blob: await encodeCanvas(canvas, exportOptions), width: canvas.width, height: canvas.height };
+  };
+
+  // PDFs keep their pages and get the watermarks stamped on top; the image format settings don't apply
+  const renderPdfExport = async (
+    item: BatchItem,
+    layers: Watermark[],
+    onStage: (stage: ExportStage) => void,
+    personalization?: Personalization
+  ): Promise<ExportResult> => {
+    onStage('decode');
+    const [doc] = await Promise.all([getPdfDoc(item), ensureLogosLoaded(layers), ensureFontsLoaded(layers)]);
+    const { width, height } = await getPdfPageFrame(doc, 0);
+    onStage('render');
+    const bytes = await watermarkPdf(item.file, layers, {
+      getLogo: getLogoImage,
+      metadata: item.metadata,
+      createLayer,
+      ...personalization,
+      pageRange: pdfPageRanges[item.id] ?? '',
+      isCancelled: () => cancelExportRef.current,
+    });
+    return { blob: new Blob([bytes], { type: 'application/pdf' }), width, height, ext: 'pdf' };
+  };
+
+  // Animations keep their format and timing; only the size and fade-in export settings apply
+  const renderAnimationExport = async (
+    item: BatchItem,
+    animation: AnimationInfo,
+    layers: Watermark[],
+    pre: Preprocess,
+    onStage: (stage: ExportStage) => void,
+    personalization?: Personalization
+  ): Promise<ExportResult> => {
+    onStage('decode');
+    const [source] = await Promise.all([loadItemImage(item), ensureLogosLoaded(layers), ensureFontsLoaded(layers)]);
+    onStage('render');
+    const { bytes, width, height } = await watermarkAnimation(item.file, animation.format, layers, {
+      getLogo: getLogoImage,
+      metadata: item.metadata,
+      createLayer,
+      // The editor shows the first frame, which is what the image element decodes to
+      saliency: layers.some(wm => wm.position === 'smart') ? getImageSaliency(item, source, pre) : null,
+      ...personalization,
+      preprocess: pre,
+      maxEdge: exportOptions.maxEdge,
+      fadeInFrames: exportOptions.fadeInFrames,
+      isCancelled: () => cancelExportRef.current,
+    });
+    const gif = animation.format === 'gif';
+    return { blob: new Blob([bytes], { type: gif ? 'image/gif' : 'image/apng' }), width, height, ext: gif ? 'gif' : 'png' };
+  };
+
+  // Runs the export for the given tasks with progress, handing each file over as soon as it is
+  // rendered so batches never pile up in memory. Resolves to false when cancelled.
+  const runExport = async (tasks: ExportTask[], onResult: (task: ExportTask, result: ExportResult, index: number) => Promise<void> | void) => {
+    cancelExportRef.current = false;
+    try {
+      for (let i = 0; i < tasks.length; i++) {
+        const task = tasks[i];
+        const { item, personalization } = task;
+        if (cancelExportRef.current) return false;
+        const result = await renderExport(item, overrides[item.id] ?? watermarks, preprocess, stage => {
+          setExportProgress({
+            done: i + EXPORT_STAGES[stage].progress,
+            total: tasks.length,
+            current: [item.file.name, personalization?.recipient, EXPORT_STAGES[stage].label].filter(Boolean).join(' · '),
+          });
+        }, personalization);
+        if (cancelExportRef.current) return false;
+        await onResult(task, result, i);
+      }
+      return true;
+    } finally {
+      // Hot-folder PDFs and animations read the flag too but render outside runExport; a cancel ends here
+      cancelExportRef.current = false;
+    }
+  };
+
+  // Hot-folder files are rendered like a one-off batch item that never shows up in the editor
+  const processHotFolderFile = async (file: File, presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) throw new Error('所选预设不存在');
+    const item: BatchItem = {
+      id: createId(),
+      file,
+      url: URL.createObjectURL(file),
+      thumbnail: null,
+      metadata: await readImageMetadata(file),
+      animation: await detectAnimation(file),
+    };
+    const pre = preset.preprocess ?? DEFAULT_PREPROCESS;
+    try {
+      const result = await renderExport(item, preset.watermarks, pre, () => {});
+      return { filename: getExportFilename(file.name, 1, result.width, result.height, result.ext), blob: result.blob };
+    } finally {
+      URL.revokeObjectURL(item.url);
+      saliencyCache.current.delete(getSaliencyKey(item.url, pre));
+    }
+  };
+
+  const hotFolder = useHotFolder(processHotFolderFile);
+
+  const cancelExport = () => {
+    cancelExportRef.current = true;
+    cancelExports();
+  };
+
+  const reportExportError = (err: unknown) => {
+    if (err instanceof ExportCancelledError) return;
+    alert(err instanceof Error ? err.message : '导出失败');
+  };
+
+  const downloadImage = async () => {
+    if (!activeItem) return;
+    try {
+      await runExport([{ item: activeItem }], (_, result) => {
+        downloadBlob(result.blob, getExportFilename(activeItem.file.name, batch.indexOf(activeItem) + 1, result.width, result.height, result.ext));
+      });
+    } catch (err) {
+      reportExportError(err);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const confirmExport = () => {
+    const mode = exportDialog;
+    setExportDialog(null);
+    if (mode === 'batch') {
+      exportBatch();
+    } else {
+      downloadImage();
+    }
+  };
+
+  const exportBatch = async () => {
+    const archive = createZipWriter();
+    const usedNames = new Set<string>();
+
+    try {
+      const completed = await runExport(batch.map(item => ({ item })), async ({ item }, result, i) => {
+        const filename = makeUniqueName(getExportFilename(item.file.name, i + 1, result.width, result.height, result.ext), usedNames);
+        archive.add(filename, new Uint8Array(await result.blob.arrayBuffer()));
+      });
+      if (!completed) return;
+
+      setExportProgress({ done: batch.length, total: batch.length, current: '正在打包' });
+      downloadBlob(await archive.finish(), '带水印的图片.zip');
+    } catch (err) {
+      reportExportError(err);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  // Every image once per recipient, one folder per recipient plus a manifest of what went to whom
+  const exportPersonalized = async () => {
+    setShowPersonalize(false);
+    const recipients = parseRecipients(personalizeSettings.recipients);
+    const tasks = batch.flatMap(item => recipients.map(recipient => ({
+      item,
+      personalization: createPersonalization(recipient, overrides[item.id] ?? watermarks, personalizeSettings),
+    })));
+    const archive = createZipWriter();
+    const usedNames = new Set<string>();
+    const manifest: ManifestEntry[] = [];
+
+    try {
+      const completed = await runExport(tasks, async ({ item, personalization }, result) => {
+        if (!personalization) return;
+        const { recipient, jitter } = personalization;
+        const filename = makeUniqueName(
+          `${toFolderName(recipient)}/${getExportFilename(item.file.name, batch.indexOf(item) + 1, result.width, result.height, result.ext)}`,
+          usedNames
+        );
+        const bytes = new Uint8Array(await result.blob.arrayBuffer());
+        manifest.push({ file: filename, recipient, source: item.file.name, sha256: await hashBytes(bytes), bytes: bytes.length, jitter });
+        archive.add(filename, bytes);
+      });
+      if (!completed) return;
+
+      const encoder = new TextEncoder();
+      archive.add('manifest.csv', encoder.encode(manifestToCsv(manifest)));
+      archive.add('manifest.json', encoder.encode(manifestToJson(manifest, new Date())));
+      setExportProgress({ done: tasks.length, total: tasks.length, current: '正在打包' });
+      downloadBlob(await archive.finish(), '分发副本.zip');
+    } catch (err) {
+      reportExportError(err);
+    } finally {
+      setExportProgress(null);
+    }
   };
 
   const reset = () => {
+    batch.forEach(item => {
+      URL.revokeObjectURL(item.url);
+      closePdfDoc(item.url);
+    });
+    setBatch([]);
+    setActiveItemId(null);
+    setPdfPageRanges({});
     setImage(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
@@ -256,58 +1237,348 @@ export default function App() {
             <h1 className="font-semibold text-lg tracking-tight">浅香水印</h1>
             <p className="text-xs text-black/40 font-medium uppercase tracking-wider">专业版</p>
           </div>
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={layoutHistory.undo}
+              disabled={!layoutHistory.canUndo}
+              className="p-1.5 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+              title="撤销 (Ctrl+Z)"
+            >
+              <Undo2 size={18} />
+            </button>
+            <button
+              onClick={layoutHistory.redo}
+              disabled={!layoutHistory.canRedo}
+              className="p-1.5 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+              title="重做 (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={18} />
+            </button>
+            <button
+              onClick={() => setShowVerify(true)}
+              className="p-1.5 hover:bg-black/5 rounded-lg transition-colors text-black"
+              title="验证隐形水印"
+            >
+              <ShieldCheck size={18} />
+            </button>
+            {hotFolder.available && (
+              <button
+                onClick={() => setShowHotFolder(true)}
+                className={`p-1.5 hover:bg-black/5 rounded-lg transition-colors ${hotFolder.running ? 'text-emerald-500' : 'text-black'}`}
+                title={hotFolder.running ? '监视文件夹（运行中）' : '监视文件夹'}
+              >
+                <FolderSync size={18} />
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="p-6 space-y-8">
+          {/* Presets */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between text-black/60">
+              <div className="flex items-center gap-2">
+                <Bookmark size={16} />
+                <span className="text-xs font-bold uppercase tracking-widest">预设</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => presetInputRef.current?.click()}
+                  className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black"
+                  title="导入预设"
+                >
+                  <FileUp size={18} />
+                </button>
+                <button
+                  onClick={exportPresets}
+                  disabled={presets.length === 0}
+                  className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+                  title="导出全部预设"
+                >
+                  <FileDown size={18} />
+                </button>
+              </div>
+              <input
+                type="file"
+                ref={presetInputRef}
+                onChange={handlePresetImport}
+                accept="application/json,.json"
+                className="hidden"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+                placeholder="预设名称..."
+                className="flex-1 min-w-0 px-4 py-2 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm transition-all"
+              />
+              <button
+                onClick={savePreset}
+                className="px-3 rounded-xl bg-black text-white hover:bg-black/90 transition-all"
+                title="保存当前水印为预设"
+              >
+                <Save size={16} />
+              </button>
+            </div>
+
+            {presets.length > 0 && (
+              <div className="space-y-2 max-h-40 overflow-y-auto pr-1 custom-scrollbar">
+                {presets.map((preset) => (
+                  <div
+                    key={preset.id}
+                    onClick={() => applyPreset(preset)}
+                    className="group flex items-center justify-between p-2 pl-3 rounded-xl cursor-pointer bg-[#F5F5F7] text-black/60 border border-transparent hover:border-black/10 transition-all"
+                  >
+                    <span className="text-xs font-medium truncate">{preset.name}</span>
+                    <div className="flex items-center shrink-0">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDefaultPresetId(defaultPresetId === preset.id ? null : preset.id);
+                        }}
+                        className={`p-1.5 rounded-lg hover:bg-black/5 transition-colors ${
+                          defaultPresetId === preset.id ? 'text-amber-500' : 'text-black/20 hover:text-black/60'
+                        }`}
+                        title={defaultPresetId === preset.id ? '取消启动默认' : '设为启动默认'}
+                      >
+                        <Star size={14} fill={defaultPresetId === preset.id ? 'currentColor' : 'none'} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deletePreset(preset.id);
+                        }}
+                        className="p-1.5 rounded-lg hover:bg-black/5 text-black/20 hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Base-image pre-processing */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between text-black/60">
+              <div className="flex items-center gap-2">
+                <Crop size={16} />
+                <span className="text-xs font-bold uppercase tracking-widest">底图处理</span>
+              </div>
+              <button
+                onClick={() => {
+                  layoutHistory.set(prev => ({ ...prev, preprocess: DEFAULT_PREPROCESS }));
+                  setCropping(false);
+                }}
+                disabled={isIdentityPreprocess(preprocess)}
+                className="px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider text-black/60 hover:bg-black/5 disabled:text-black/20 disabled:hover:bg-transparent transition-all"
+              >
+                重置
+              </button>
+            </div>
+            {activeItem && isPdfFile(activeItem.file) ? (
+              <p className="text-[10px] text-black/40 leading-relaxed">PDF 保留原始页面，不做裁剪、旋转或缩放。</p>
+            ) : (
+              <PreprocessControls
+                preprocess={preprocess}
+                onChange={updatePreprocess}
+                onAspectChange={changeCropAspect}
+                cropping={cropping}
+                onToggleCrop={toggleCropping}
+                outputSize={sourceImage ? resolvePreprocess(sourceImage, preprocess).frame : null}
+              />
+            )}
+          </section>
+
           {/* Watermarks List */}
           <section className="space-y-4">
+            {activeItem && batch.length > 1 && (
+              <button
+                onClick={() => toggleItemOverride(activeItem.id)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl text-xs font-medium transition-all ${
+                  activeOverride
+                  ? 'bg-amber-50 text-amber-700 border border-amber-200'
+                  : 'bg-[#F5F5F7] text-black/60 border border-transparent hover:border-black/10'
+                }`}
+              >
+                <span>{activeOverride ? '当前图片使用独立水印' : '所有图片共用水印'}</span>
+                <span className="text-[10px] font-bold uppercase tracking-wider">
+                  {activeOverride ? '恢复共用' : '单独调整'}
+                </span>
+              </button>
+            )}
+
             <div className="flex items-center justify-between text-black/60">
               <div className="flex items-center gap-2">
                 <Layers size={16} />
                 <span className="text-xs font-bold uppercase tracking-widest">水印列表</span>
               </div>
-              <button 
-                onClick={addWatermark}
-                className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black"
-                title="添加新水印"
-              >
-                <Plus size={18} />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setShowSuggestions(true)}
+                  disabled={!image}
+                  className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+                  title="智能建议"
+                >
+                  <Sparkles size={18} />
+                </button>
+                <button 
+                  onClick={() => {
+                    logoTargetId.current = null;
+                    logoInputRef.current?.click();
+                  }}
+                  className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black"
+                  title="添加图片水印"
+                >
+                  <ImagePlus size={18} />
+                </button>
+                <button 
+                  onClick={addWatermark}
+                  className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black"
+                  title="添加新水印"
+                >
+                  <Plus size={18} />
+                </button>
+              </div>
+              <input
+                type="file"
+                ref={logoInputRef}
+                onChange={handleLogoUpload}
+                accept="image/png,image/svg+xml,image/webp,image/*"
+                className="hidden"
+              />
             </div>
             
-            <div className="space-y-2 max-h-48 overflow-y-auto pr-1 custom-scrollbar">
-              {watermarks.map((wm) => (
-                <div 
-                  key={wm.id}
-                  onClick={() => setSelectedId(wm.id)}
-                  className={`group flex items-center justify-between p-3 rounded-xl cursor-pointer transition-all border ${
-                    selectedId === wm.id 
-                    ? 'bg-black text-white border-black shadow-md' 
-                    : 'bg-[#F5F5F7] text-black/60 border-transparent hover:border-black/10'
-                  }`}
-                >
-                  <div className="flex items-center gap-3 overflow-hidden">
-                    <Type size={14} className={selectedId === wm.id ? 'text-white/60' : 'text-black/20'} />
-                    <span className="text-xs font-medium truncate">{wm.text || '无文字'}</span>
+            <div
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+              }}
+              className="space-y-2 max-h-48 overflow-y-auto pr-1 custom-scrollbar"
+            >
+              {currentWatermarks.length === 0 && (
+                <p className="py-4 text-xs text-black/30 text-center">暂无水印</p>
+              )}
+              {currentWatermarks.map((wm, index) => {
+                const selected = selectedId === wm.id;
+                const actionClass = `p-1 rounded-lg transition-colors ${
+                  selected ? 'hover:bg-white/10 text-white/40 hover:text-white' : 'hover:bg-black/5 text-black/20 hover:text-black/60'
+                }`;
+                return (
+                  <div
+                    key={wm.id}
+                    draggable={renamingId !== wm.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(LAYER_DRAG_TYPE, wm.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => handleLayerDragOver(e, index)}
+                    onDrop={handleLayerDrop}
+                    onDragEnd={() => setDropIndex(null)}
+                    onClick={() => setSelectedId(wm.id)}
+                    className={`group relative flex items-center justify-between gap-2 p-3 pl-1.5 rounded-xl cursor-pointer transition-all border ${
+                      selected
+                      ? 'bg-black text-white border-black shadow-md'
+                      : 'bg-[#F5F5F7] text-black/60 border-transparent hover:border-black/10'
+                    }`}
+                  >
+                    {(dropIndex === index || (dropIndex === index + 1 && index === currentWatermarks.length - 1)) && (
+                      <div className={`absolute left-2 right-2 h-0.5 rounded-full bg-[#0A84FF] ${dropIndex === index ? '-top-[5px]' : '-bottom-[5px]'}`} />
+                    )}
+                    <div className={`flex items-center gap-2 overflow-hidden ${wm.hidden ? 'opacity-40' : ''}`}>
+                      <GripVertical size={14} className={`shrink-0 cursor-grab ${selected ? 'text-white/30' : 'text-black/15'}`} />
+                      {wm.type === 'image' ? (
+                        <img
+                          src={wm.src}
+                          alt=""
+                          className="w-6 h-6 shrink-0 object-contain rounded bg-[repeating-conic-gradient(#0000000d_0_25%,transparent_0_50%)] bg-[length:8px_8px]"
+                        />
+                      ) : (
+                        <Type size={14} className={`shrink-0 ${selected ? 'text-white/60' : 'text-black/20'}`} />
+                      )}
+                      {renamingId === wm.id ? (
+                        <input
+                          autoFocus
+                          defaultValue={getLayerName(wm)}
+                          onClick={(e) => e.stopPropagation()}
+                          onFocus={(e) => e.target.select()}
+                          onBlur={(e) => commitRename(wm.id, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') {
+                              e.currentTarget.value = getLayerName(wm);
+                              e.currentTarget.blur();
+                            }
+                          }}
+                          className="min-w-0 flex-1 bg-transparent text-xs font-medium outline-none border-b border-current"
+                        />
+                      ) : (
+                        <span
+                          onDoubleClick={() => setRenamingId(wm.id)}
+                          className="text-xs font-medium truncate"
+                          title="双击重命名"
+                        >
+                          {getLayerName(wm)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleLayerFlag(wm.id, 'hidden');
+                        }}
+                        className={actionClass}
+                        title={wm.hidden ? '显示' : '隐藏'}
+                      >
+                        {wm.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleLayerFlag(wm.id, 'locked');
+                        }}
+                        className={actionClass}
+                        title={wm.locked ? '解锁' : '锁定位置'}
+                      >
+                        {wm.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          duplicateWatermark(wm.id);
+                        }}
+                        className={actionClass}
+                        title="复制"
+                      >
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteWatermark(wm.id);
+                        }}
+                        className={`p-1 rounded-lg transition-colors ${
+                          selected
+                          ? 'hover:bg-white/10 text-white/40 hover:text-white'
+                          : 'hover:bg-black/5 text-black/20 hover:text-red-500'
+                        }`}
+                        title="删除"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
                   </div>
-                  {watermarks.length > 1 && (
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteWatermark(wm.id);
-                      }}
-                      className={`p-1.5 rounded-lg transition-colors ${
-                        selectedId === wm.id 
-                        ? 'hover:bg-white/10 text-white/40 hover:text-white' 
-                        : 'hover:bg-black/5 text-black/20 hover:text-red-500'
-                      }`}
-                    >
-                      <Trash2 size={14} />
-                    </button>
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
+            {currentWatermarks.length > 1 && (
+              <p className="text-[10px] text-black/30">拖动调整叠放顺序，列表中靠下的水印画在上层</p>
+            )}
           </section>
 
           {selectedWatermark && (
@@ -322,13 +1593,51 @@ export default function App() {
                   <Type size={16} />
                   <span className="text-xs font-bold uppercase tracking-widest">内容</span>
                 </div>
-                <input
-                  type="text"
-                  value={selectedWatermark.text}
-                  onChange={(e) => updateSelectedWatermark({ text: e.target.value })}
-                  placeholder="输入水印文字..."
-                  className="w-full px-4 py-3 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm transition-all"
-                />
+                {selectedWatermark.type === 'image' ? (
+                  <button
+                    onClick={() => {
+                      logoTargetId.current = selectedWatermark.id;
+                      logoInputRef.current?.click();
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 bg-[#F5F5F7] rounded-xl text-sm hover:bg-black/10 transition-all"
+                  >
+                    <img src={selectedWatermark.src} alt="" className="w-8 h-8 object-contain" />
+                    <span className="truncate text-black/60">更换图片</span>
+                  </button>
+                ) : (
+                  <div className="space-y-3">
+                    <textarea
+                      ref={textInputRef}
+                      rows={Math.max(2, Math.min(6, selectedWatermark.text.split('\n').length))}
+                      value={selectedWatermark.text}
+                      onChange={(e) => updateSelectedWatermark({ text: e.target.value })}
+                      placeholder="输入水印文字，回车换行..."
+                      className="w-full px-4 py-3 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm transition-all resize-none"
+                    />
+                    {hasTextVariables(selectedWatermark.text) && (
+                      <p className="px-1 text-xs text-black/60 break-all">
+                        <span className="text-[10px] font-bold text-black/40 uppercase mr-2">预览</span>
+                        {resolveText(selectedWatermark.text, {
+                          metadata: activeItem?.metadata ?? null,
+                          width: image?.width ?? 0,
+                          height: image?.height ?? 0,
+                        }) || '（空）'}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {TEXT_VARIABLES.map(({ key, label }) => (
+                        <button
+                          key={key}
+                          onClick={() => insertTextVariable(`{${key}}`)}
+                          title={`{${key}}，缺失时可写作 {${key}|默认值}`}
+                          className="px-2 py-1 rounded-md bg-[#F5F5F7] text-[10px] font-medium text-black/50 hover:bg-black/10 hover:text-black transition-colors"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </section>
 
               {/* Styling */}
@@ -339,21 +1648,72 @@ export default function App() {
                 </div>
                 
                 <div className="space-y-6">
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
-                      <span>大小</span>
-                      <span>{selectedWatermark.fontSize}px</span>
-                    </div>
-                    <input
-                      type="range"
-                      min="10"
-                      max="200"
-                      value={selectedWatermark.fontSize}
-                      onChange={(e) => updateSelectedWatermark({ fontSize: parseInt(e.target.value) })}
-                      className="w-full accent-black"
-                    />
+                  <div className="grid grid-cols-3 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+                    {([['px', '像素'], ['short-edge', '短边 %'], ['width', '宽度 %']] as [SizeMode, string][]).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => changeSizeMode(mode)}
+                        title={mode === 'px' ? '固定像素大小' : '随图片尺寸缩放，同一预设在不同分辨率下比例一致'}
+                        className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                          selectedWatermark.sizeMode === mode
+                          ? 'bg-white text-black shadow-sm'
+                          : 'text-black/40 hover:text-black/60'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
                   </div>
 
+                  {selectedWatermark.sizeMode !== 'px' ? (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                        <span>{selectedWatermark.type === 'image' ? '宽度' : '字号'}</span>
+                        <span>{selectedWatermark.relativeSize.toFixed(1)}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.5"
+                        max={selectedWatermark.type === 'image' ? 100 : 30}
+                        step="0.1"
+                        value={selectedWatermark.relativeSize}
+                        onChange={(e) => updateSelectedWatermark({ relativeSize: parseFloat(e.target.value) })}
+                        className="w-full accent-black"
+                      />
+                    </div>
+                  ) : selectedWatermark.type === 'image' ? (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                        <span>缩放</span>
+                        <span>{Math.round(selectedWatermark.scale * 100)}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.01"
+                        max="3"
+                        step="0.01"
+                        value={selectedWatermark.scale}
+                        onChange={(e) => updateSelectedWatermark({ scale: parseFloat(e.target.value) })}
+                        className="w-full accent-black"
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                        <span>大小</span>
+                        <span>{selectedWatermark.fontSize}px</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="10"
+                        max="200"
+                        value={selectedWatermark.fontSize}
+                        onChange={(e) => updateSelectedWatermark({ fontSize: parseInt(e.target.value) })}
+                        className="w-full accent-black"
+                      />
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
                       <span>不透明度</span>
@@ -370,6 +1730,38 @@ export default function App() {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <span className="text-[10px] font-bold text-black/40 uppercase">混合模式</span>
+                    <select
+                      value={selectedWatermark.blendMode}
+                      onChange={(e) => updateSelectedWatermark({ blendMode: e.target.value as BlendMode })}
+                      className="w-full px-3 py-2 bg-[#F5F5F7] rounded-xl border-none outline-none text-sm"
+                    >
+                      {BLEND_MODES.map(({ mode, label }) => (
+                        <option key={mode} value={mode}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <span className="text-[10px] font-bold text-black/40 uppercase">效果</span>
+                    <div className="grid grid-cols-4 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+                      {([['none', '无'], ['emboss', '浮雕'], ['engrave', '雕刻'], ['frosted', '磨砂']] as [WatermarkEffect, string][]).map(([effect, label]) => (
+                        <button
+                          key={effect}
+                          onClick={() => updateSelectedWatermark({ effect })}
+                          className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                            selectedWatermark.effect === effect
+                            ? 'bg-white text-black shadow-sm'
+                            : 'text-black/40 hover:text-black/60'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
                       <span>旋转角度</span>
@@ -385,18 +1777,91 @@ export default function App() {
                     />
                   </div>
 
-                  <div className="flex items-center justify-between">
-                    <span className="text-[10px] font-bold text-black/40 uppercase">颜色</span>
-                    <div className="flex items-center gap-2">
-                      <input
-                        type="color"
-                        value={selectedWatermark.color}
-                        onChange={(e) => updateSelectedWatermark({ color: e.target.value })}
-                        className="w-8 h-8 rounded-lg border-none cursor-pointer overflow-hidden"
-                      />
-                      <span className="text-xs font-mono text-black/60">{selectedWatermark.color.toUpperCase()}</span>
+                  {selectedWatermark.type === 'text' && (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-black/40 uppercase">颜色</span>
+                        <div className="grid grid-cols-2 gap-1 p-1 bg-[#F5F5F7] rounded-lg">
+                          {([['fixed', '固定'], ['auto', '自动']] as [ColorMode, string][]).map(([mode, label]) => (
+                            <button
+                              key={mode}
+                              onClick={() => updateSelectedWatermark({ colorMode: mode })}
+                              title={mode === 'auto' ? '按每张图片水印下方的颜色自动选择，保证对比度' : undefined}
+                              className={`px-2 h-6 rounded-md text-[10px] font-bold transition-all ${
+                                selectedWatermark.colorMode === mode
+                                ? 'bg-white text-black shadow-sm'
+                                : 'text-black/40 hover:text-black/60'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {selectedWatermark.colorMode === 'fixed' ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <input
+                            type="color"
+                            value={selectedWatermark.color}
+                            onChange={(e) => updateSelectedWatermark({ color: e.target.value })}
+                            className="w-8 h-8 rounded-lg border-none cursor-pointer overflow-hidden"
+                          />
+                          <span className="text-xs font-mono text-black/60">{selectedWatermark.color.toUpperCase()}</span>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-2 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+                            {([['mono', '黑白'], ['tint', '互补色']] as [AutoColorStyle, string][]).map(([style, label]) => (
+                              <button
+                                key={style}
+                                onClick={() => updateSelectedWatermark({ autoColorStyle: style })}
+                                className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                                  selectedWatermark.autoColorStyle === style
+                                  ? 'bg-white text-black shadow-sm'
+                                  : 'text-black/40 hover:text-black/60'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="space-y-2">
+                            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                              <span>目标对比度</span>
+                              <span>{selectedWatermark.contrastTarget.toFixed(1)}:1</span>
+                            </div>
+                            <input
+                              type="range"
+                              min="1.5"
+                              max="12"
+                              step="0.5"
+                              value={selectedWatermark.contrastTarget}
+                              onChange={(e) => updateSelectedWatermark({ contrastTarget: parseFloat(e.target.value) })}
+                              className="w-full accent-black"
+                            />
+                          </div>
+                          <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-[10px] font-bold text-black/40 uppercase">背景复杂时自动描边</span>
+                            <input
+                              type="checkbox"
+                              checked={selectedWatermark.autoOutline}
+                              onChange={(e) => updateSelectedWatermark({ autoOutline: e.target.checked })}
+                              className="w-4 h-4 accent-black"
+                            />
+                          </label>
+                        </>
+                      )}
                     </div>
-                  </div>
+                  )}
+
+                  {selectedWatermark.type === 'text' && (
+                    <TextStyleControls
+                      watermark={selectedWatermark}
+                      onChange={updateSelectedWatermark}
+                      uploadedFonts={getUploadedFonts([...watermarks, ...Object.values(overrides).flat()])}
+                      onUploadFont={handleFontUpload}
+                    />
+                  )}
                 </div>
               </section>
 
@@ -407,67 +1872,206 @@ export default function App() {
                   <span className="text-xs font-bold uppercase tracking-widest">位置</span>
                 </div>
                 
-                <div className="grid grid-cols-3 gap-2">
-                  {(['top-left', 'top-center', 'top-right', 'center', 'bottom-left', 'bottom-center', 'bottom-right'] as Position[]).map((pos) => (
+                <div className="grid grid-cols-2 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+                  {([['single', '单个'], ['tiled', '平铺']] as [Layout, string][]).map(([layout, label]) => (
                     <button
-                      key={pos}
-                      onClick={() => updateSelectedWatermark({ position: pos })}
-                      className={`h-10 rounded-lg border flex items-center justify-center transition-all ${
-                        selectedWatermark.position === pos 
-                        ? 'bg-black border-black text-white shadow-lg shadow-black/20' 
-                        : 'bg-white border-black/10 text-black/40 hover:border-black/30'
+                      key={layout}
+                      onClick={() => updateSelectedWatermark({ layout })}
+                      className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                        selectedWatermark.layout === layout
+                        ? 'bg-white text-black shadow-sm'
+                        : 'text-black/40 hover:text-black/60'
                       }`}
                     >
-                      <div className={`w-1.5 h-1.5 rounded-full bg-current ${pos === 'center' ? 'scale-150' : ''}`} />
+                      {label}
                     </button>
                   ))}
-                  <button
-                    onClick={() => updateSelectedWatermark({ position: 'custom' })}
-                    className={`col-span-2 h-10 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-all ${
-                      selectedWatermark.position === 'custom' 
-                      ? 'bg-black border-black text-white shadow-lg shadow-black/20' 
-                      : 'bg-white border-black/10 text-black/40 hover:border-black/30'
-                    }`}
-                  >
-                    自定义坐标
-                  </button>
                 </div>
 
-                {selectedWatermark.position === 'custom' && (
-                  <motion.div 
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: 'auto' }}
-                    className="space-y-4 pt-2"
-                  >
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
-                        <span>横向位置 (X)</span>
-                        <span>{Math.round(selectedWatermark.customX)}%</span>
+                {selectedWatermark.layout === 'tiled' ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-black/40 uppercase">间距</span>
+                      <div className="grid grid-cols-2 gap-1 p-1 bg-[#F5F5F7] rounded-lg">
+                        {([['%', '图层 %'], ['px', '像素']] as [MarginUnit, string][]).map(([unit, label]) => (
+                          <button
+                            key={unit}
+                            onClick={() => changeTileGapUnit(unit)}
+                            className={`px-2 h-6 rounded-md text-[10px] font-bold transition-all ${
+                              selectedWatermark.tileGapUnit === unit
+                              ? 'bg-white text-black shadow-sm'
+                              : 'text-black/40 hover:text-black/60'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
                       </div>
-                      <input
-                        type="range"
-                        min="0"
-                        max="100"
-                        value={selectedWatermark.customX}
-                        onChange={(e) => updateSelectedWatermark({ customX: parseInt(e.target.value) })}
-                        className="w-full accent-black"
-                      />
                     </div>
+                    {(['tileGapX', 'tileGapY'] as const).map(field => (
+                      <div key={field} className="space-y-2">
+                        <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                          <span>{field === 'tileGapX' ? '水平间距' : '垂直间距'}</span>
+                          <span>{selectedWatermark[field]}{selectedWatermark.tileGapUnit}</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max={selectedWatermark.tileGapUnit === '%' ? 500 : 600}
+                          step={selectedWatermark.tileGapUnit === '%' ? 5 : 1}
+                          value={selectedWatermark[field]}
+                          onChange={(e) => updateSelectedWatermark({ [field]: parseFloat(e.target.value) })}
+                          className="w-full accent-black"
+                        />
+                      </div>
+                    ))}
                     <div className="space-y-2">
                       <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
-                        <span>纵向位置 (Y)</span>
-                        <span>{Math.round(selectedWatermark.customY)}%</span>
+                        <span>错行偏移</span>
+                        <span>{Math.round(selectedWatermark.tileOffset * 100)}%</span>
                       </div>
                       <input
                         type="range"
                         min="0"
-                        max="100"
-                        value={selectedWatermark.customY}
-                        onChange={(e) => updateSelectedWatermark({ customY: parseInt(e.target.value) })}
+                        max="1"
+                        step="0.01"
+                        value={selectedWatermark.tileOffset}
+                        onChange={(e) => updateSelectedWatermark({ tileOffset: parseFloat(e.target.value) })}
                         className="w-full accent-black"
                       />
                     </div>
-                  </motion.div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-3 gap-2">
+                      {ANCHOR_POSITIONS.map((pos) => (
+                        <button
+                          key={pos}
+                          onClick={() => updateSelectedWatermark({ position: pos })}
+                          className={`h-10 rounded-lg border flex items-center justify-center transition-all ${
+                            selectedWatermark.position === pos 
+                            ? 'bg-black border-black text-white shadow-lg shadow-black/20' 
+                            : 'bg-white border-black/10 text-black/40 hover:border-black/30'
+                          }`}
+                        >
+                          <div className={`w-1.5 h-1.5 rounded-full bg-current ${pos === 'center' ? 'scale-150' : ''}`} />
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([['smart', '智能避让'], ['custom', '自定义坐标']] as const).map(([pos, label]) => (
+                        <button
+                          key={pos}
+                          onClick={() => updateSelectedWatermark({ position: pos })}
+                          className={`h-10 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-all ${
+                            selectedWatermark.position === pos
+                            ? 'bg-black border-black text-white shadow-lg shadow-black/20'
+                            : 'bg-white border-black/10 text-black/40 hover:border-black/30'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {selectedWatermark.position === 'smart' && (
+                      <div className="space-y-3 p-3 bg-[#F5F5F7] rounded-xl">
+                        <p className="text-[10px] text-black/40 leading-relaxed">
+                          {selectedPlacement
+                            ? `放在${ANCHOR_LABELS[selectedPlacement.position]}：画面繁杂度 ${Math.round(
+                              (selectedPlacement.candidates.find(c => c.position === selectedPlacement.position)?.score ?? 0) * 100
+                            )}%，为不与其他水印重叠的位置中最低`
+                            : '按每张图片的内容自动选择最空旷的角落或边缘'}
+                        </p>
+                        <label className="flex items-center justify-between cursor-pointer">
+                          <span className="text-[10px] font-bold text-black/40 uppercase">显示热力图</span>
+                          <input
+                            type="checkbox"
+                            checked={showHeatmap}
+                            onChange={(e) => setShowHeatmap(e.target.checked)}
+                            className="w-4 h-4 accent-black"
+                          />
+                        </label>
+                      </div>
+                    )}
+
+                    {selectedWatermark.position !== 'custom' && (
+                      <div className="space-y-4 pt-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-[10px] font-bold text-black/40 uppercase">边距</span>
+                          <div className="grid grid-cols-2 gap-1 p-1 bg-[#F5F5F7] rounded-lg">
+                            {([['%', '短边 %'], ['px', '像素']] as [MarginUnit, string][]).map(([unit, label]) => (
+                              <button
+                                key={unit}
+                                onClick={() => changeMarginUnit(unit)}
+                                className={`px-2 h-6 rounded-md text-[10px] font-bold transition-all ${
+                                  selectedWatermark.marginUnit === unit
+                                  ? 'bg-white text-black shadow-sm'
+                                  : 'text-black/40 hover:text-black/60'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        {(['marginX', 'marginY'] as const).map(field => (
+                          <div key={field} className="space-y-2">
+                            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                              <span>{field === 'marginX' ? '水平边距' : '垂直边距'}</span>
+                              <span>{selectedWatermark[field]}{selectedWatermark.marginUnit}</span>
+                            </div>
+                            <input
+                              type="range"
+                              min="0"
+                              max={selectedWatermark.marginUnit === '%' ? 25 : 500}
+                              step={selectedWatermark.marginUnit === '%' ? 0.5 : 1}
+                              value={selectedWatermark[field]}
+                              onChange={(e) => updateSelectedWatermark({ [field]: parseFloat(e.target.value) })}
+                              className="w-full accent-black"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {selectedWatermark.position === 'custom' && (
+                      <motion.div 
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        className="space-y-4 pt-2"
+                      >
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                            <span>横向位置 (X)</span>
+                            <span>{Math.round(selectedWatermark.customX)}%</span>
+                          </div>
+                          <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={selectedWatermark.customX}
+                            onChange={(e) => updateSelectedWatermark({ customX: parseInt(e.target.value) })}
+                            className="w-full accent-black"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                            <span>纵向位置 (Y)</span>
+                            <span>{Math.round(selectedWatermark.customY)}%</span>
+                          </div>
+                          <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={selectedWatermark.customY}
+                            onChange={(e) => updateSelectedWatermark({ customY: parseInt(e.target.value) })}
+                            className="w-full accent-black"
+                          />
+                        </div>
+                      </motion.div>
+                    )}
+                  </>
                 )}
               </section>
             </motion.div>
@@ -476,15 +2080,52 @@ export default function App() {
 
         {/* Action Buttons */}
         <div className="mt-auto p-6 border-t border-black/5 space-y-3 bg-white/80 backdrop-blur-md sticky bottom-0">
-          {image && (
+          {exportProgress ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                <span className="truncate pr-2">{exportProgress.current}</span>
+                <span>{Math.floor(exportProgress.done)} / {exportProgress.total}</span>
+              </div>
+              <div className="h-2 bg-black/5 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-black transition-all"
+                  style={{ width: `${(exportProgress.done / exportProgress.total) * 100}%` }}
+                />
+              </div>
+              <button
+                onClick={cancelExport}
+                className="w-full py-2 text-xs font-bold text-red-500 hover:text-red-600 transition-colors uppercase tracking-widest"
+              >
+                取消导出
+              </button>
+            </div>
+          ) : batch.length > 1 && (
+            <button
+              onClick={() => setExportDialog('batch')}
+              className="w-full bg-black text-white py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 hover:bg-black/90 transition-all active:scale-[0.98] shadow-xl shadow-black/10"
+            >
+              <Archive size={18} />
+              导出全部 ({batch.length}) 为 ZIP
+            </button>
+          )}
+          {image && !exportProgress && (
             <button
-              onClick={downloadImage}
+              onClick={() => setExportDialog('single')}
               className="w-full bg-black text-white py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 hover:bg-black/90 transition-all active:scale-[0.98] shadow-xl shadow-black/10"
             >
               <Download size={18} />
               下载结果
             </button>
           )}
+          {image && !exportProgress && (
+            <button
+              onClick={() => setShowPersonalize(true)}
+              className="w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 transition-all active:scale-[0.98] bg-black/5 text-black hover:bg-black/10"
+            >
+              <Users size={18} />
+              按收件人分发
+            </button>
+          )}
           <button
             onClick={() => fileInputRef.current?.click()}
             className={`w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 transition-all active:scale-[0.98] ${
@@ -494,13 +2135,14 @@ export default function App() {
             }`}
           >
             <Upload size={18} />
-            {image ? '更换图片' : '选择图片'}
+            {image ? '添加图片' : '选择图片'}
           </button>
           <input
             type="file"
             ref={fileInputRef}
             onChange={handleImageUpload}
-            accept="image/*"
+            accept="image/*,application/pdf"
+            multiple
             className="hidden"
           />
           {image && (
@@ -508,14 +2150,31 @@ export default function App() {
               onClick={reset}
               className="w-full py-2 text-xs font-bold text-red-500 hover:text-red-600 transition-colors uppercase tracking-widest"
             >
-              移除图片
+              {batch.length > 1 ? '移除全部图片' : '移除图片'}
             </button>
           )}
         </div>
       </aside>
 
       {/* Main Preview Area */}
-      <main className="flex-1 relative flex items-center justify-center p-8 md:p-12 bg-[#F5F5F7]">
+      <main
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDroppingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDroppingFiles(false);
+        }}
+        onDrop={handleFileDrop}
+        className="flex-1 relative flex items-center justify-center p-8 md:p-12 bg-[#F5F5F7]"
+      >
+        {isDroppingFiles && (
+          <div className="absolute inset-4 z-20 rounded-[32px] border-2 border-dashed border-black/20 bg-white/60 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+            <span className="text-sm font-bold text-black/40 uppercase tracking-widest">松开以添加图片</span>
+          </div>
+        )}
+
         <AnimatePresence mode="wait">
           {!image ? (
             <motion.div
@@ -545,25 +2204,85 @@ export default function App() {
               key="preview"
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
-              className="relative w-full h-full flex items-center justify-center"
+              className="absolute inset-0"
             >
-              <div className={`relative max-w-full max-h-full shadow-2xl rounded-2xl overflow-hidden bg-white border border-black/5 ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}>
+              <PreviewViewport
+                frame={image}
+                original={image.proxy}
+                viewKey={`${activeItemId}#${pdfPage}${cropping ? '#crop' : ''}`}
+                onScaleChange={setViewScale}
+              >
                 <canvas
                   ref={canvasCallbackRef}
-                  onMouseDown={handleStart}
-                  onMouseMove={handleMove}
-                  onMouseUp={handleEnd}
-                  onMouseLeave={handleEnd}
-                  onTouchStart={handleStart}
-                  onTouchMove={handleMove}
-                  onTouchEnd={handleEnd}
-                  className="max-w-full max-h-[70vh] object-contain block touch-none"
+                  className="w-full h-full block rounded-2xl"
+                  // Zoomed far in, show crisp pixels instead of a blur
+                  style={{ imageRendering: viewScale * window.devicePixelRatio >= (image.proxy.width / image.width) * 2 ? 'pixelated' : 'auto' }}
                 />
-              </div>
+                {image && saliency && showHeatmap && (
+                  <SaliencyOverlay frame={image} map={saliency} placement={selectedPlacement} />
+                )}
+                {cropFrame && image?.width === cropFrame.width && image.height === cropFrame.height && (
+                  <CropOverlay
+                    frame={cropFrame}
+                    crop={getCropPixels(sourceImage, preprocess)}
+                    ratio={getCropRatio(preprocess.aspect)}
+                    onGestureStart={layoutHistory.checkpoint}
+                    onChange={handleCropChange}
+                  />
+                )}
+                {image && !cropping && (
+                  <SelectionOverlay
+                    frame={image}
+                    layers={layerBoxes}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                    onGestureStart={handleGestureStart}
+                    onMove={handleOverlayMove}
+                    onScale={handleOverlayScale}
+                    onRotate={handleOverlayRotate}
+                  />
+                )}
+              </PreviewViewport>
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Thumbnail Strip */}
+        {batch.length > 1 && (
+          <div className="absolute top-6 left-1/2 -translate-x-1/2 max-w-[90%] bg-white/80 backdrop-blur-md p-2 rounded-2xl border border-black/5 shadow-xl flex gap-2 overflow-x-auto custom-scrollbar">
+            {batch.map((item) => (
+              <div
+                key={item.id}
+                onClick={() => setActiveItemId(item.id)}
+                title={item.file.name}
+                className={`group relative w-14 h-14 shrink-0 rounded-xl overflow-hidden cursor-pointer border-2 transition-all ${
+                  item.id === activeItemId ? 'border-black' : 'border-transparent opacity-60 hover:opacity-100'
+                }`}
+              >
+                {item.thumbnail ? (
+                  <img src={item.thumbnail} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full bg-[#F5F5F7] flex items-center justify-center">
+                    <ImageIcon size={16} className="text-black/20" />
+                  </div>
+                )}
+                {overrides[item.id] && (
+                  <span className="absolute bottom-1 left-1 w-2 h-2 rounded-full bg-amber-400 ring-2 ring-white" title="独立水印" />
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeItem(item.id);
+                  }}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded-md bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Floating Info */}
         {image && (
           <div className="absolute bottom-8 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-md px-6 py-3 rounded-full border border-black/5 shadow-xl flex items-center gap-4">
@@ -575,9 +2294,89 @@ export default function App() {
             <span className="text-xs font-medium text-black/40">
               {image.width} × {image.height} px
             </span>
+            {activeItem?.animation && (
+              <>
+                <div className="w-px h-4 bg-black/10" />
+                <span className="text-xs font-medium text-black/40">
+                  {activeItem.animation.format === 'gif' ? 'GIF' : 'APNG'} 动画 · {activeItem.animation.frameCount} 帧
+                </span>
+              </>
+            )}
+            {pdfPageCount > 0 && (
+              <>
+                <div className="w-px h-4 bg-black/10" />
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setPdfPage(p => Math.max(0, p - 1))}
+                    disabled={pdfPage === 0}
+                    className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+                    title="上一页"
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <span className="text-xs font-medium text-black/60 tabular-nums">{pdfPage + 1} / {pdfPageCount}</span>
+                  <button
+                    onClick={() => setPdfPage(p => Math.min(pdfPageCount - 1, p + 1))}
+                    disabled={pdfPage >= pdfPageCount - 1}
+                    className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+                    title="下一页"
+                  >
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={pdfPageRange}
+                  onChange={(e) => setPdfPageRanges(prev => ({ ...prev, [activeItem!.id]: e.target.value }))}
+                  placeholder="全部页面"
+                  title={pdfPageSelection.error ?? '加水印的页码，例如 1-3, 5, 8-'}
+                  className={`w-28 px-3 py-1 bg-[#F5F5F7] rounded-lg border-none outline-none text-xs ${pdfPageSelection.error ? 'ring-1 ring-red-400' : ''}`}
+                />
+                {pageExcluded && <span className="text-xs font-medium text-amber-600">此页不加水印</span>}
+              </>
+            )}
           </div>
         )}
       </main>
+
+      <AnimatePresence>
+        {exportDialog && image && (
+          <ExportDialog
+            options={exportOptions}
+            onChange={setExportOptions}
+            sample={{ name: getBaseName(activeItem?.file.name ?? '带水印的图片'), width: image.width, height: image.height }}
+            count={exportDialog === 'batch' ? batch.length : 1}
+            hasAnimation={exportDialog === 'batch' ? batch.some(item => item.animation) : !!activeItem?.animation}
+            unmarkableCount={(exportDialog === 'batch' ? batch : activeItem ? [activeItem] : [])
+              .filter(item => item.animation || isPdfFile(item.file)).length}
+            onConfirm={confirmExport}
+            onClose={() => setExportDialog(null)}
+          />
+        )}
+        {showVerify && <VerifyDialog onClose={() => setShowVerify(false)} />}
+        {showSuggestions && image && (
+          <SuggestionsDialog
+            createRequest={createSuggestionRequest}
+            onApply={applySuggestion}
+            onClose={() => setShowSuggestions(false)}
+          />
+        )}
+        {showPersonalize && (
+          <PersonalizeDialog
+            settings={personalizeSettings}
+            onChange={setPersonalizeSettings}
+            imageCount={batch.length}
+            usesRecipient={batch.some(item => (overrides[item.id] ?? watermarks).some(wm =>
+              !wm.hidden && wm.type === 'text' && /\{recipient[|}]/.test(wm.text)
+            ))}
+            onConfirm={exportPersonalized}
+            onClose={() => setShowPersonalize(false)}
+          />
+        )}
+        {showHotFolder && (
+          <HotFolderDialog hotFolder={hotFolder} presets={presets} onClose={() => setShowHotFolder(false)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
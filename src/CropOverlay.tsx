@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { CropRect } from './preprocess';
+import type { Frame } from './render';
+
+interface CropOverlayProps {
+  // The rotated and flipped image, uncropped
+  frame: Frame;
+  // In frame px
+  crop: CropRect;
+  // Width / height to keep while resizing, null for a free crop
+  ratio: number | null;
+  // Fired once before the first change of each drag
+  onGestureStart: () => void;
+  onChange: (crop: CropRect) => void;
+}
+
+type Gesture =
+  | { mode: 'move'; offsetX: number; offsetY: number }
+  // The corner opposite the dragged one stays put
+  | { mode: 'resize'; anchorX: number; anchorY: number };
+
+// Sizes in screen px, converted to frame px so the tool looks the same at any zoom
+const HANDLE_SIZE = 12;
+const MIN_CROP = 24;
+
+const CORNERS = [
+  { x: 0, y: 0, cursor: 'nwse-resize' },
+  { x: 1, y: 0, cursor: 'nesw-resize' },
+  { x: 1, y: 1, cursor: 'nwse-resize' },
+  { x: 0, y: 1, cursor: 'nesw-resize' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Crop rectangle drawn over the uncropped preview. Dragging inside moves it, the corners
+ * resize it, keeping the aspect preset's ratio when there is one.
+ */
+export default function CropOverlay({ frame, crop, ratio, onGestureStart, onChange }: CropOverlayProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  // Frame px per screen px
+  const [pixelSize, setPixelSize] = useState(1);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(() => {
+      const { width } = svg.getBoundingClientRect();
+      if (width > 0) setPixelSize(frame.width / width);
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [frame.width]);
+
+  const toFramePoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * frame.width, 0, frame.width),
+      y: clamp(((e.clientY - rect.top) / rect.height) * frame.height, 0, frame.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    const { x, y } = toFramePoint(e);
+    const corner = (e.target as Element).getAttribute('data-corner');
+    if (corner !== null) {
+      const { x: cx, y: cy } = CORNERS[Number(corner)];
+      gesture.current = { mode: 'resize', anchorX: crop.x + (1 - cx) * crop.width, anchorY: crop.y + (1 - cy) * crop.height };
+    } else if (x >= crop.x && x <= crop.x + crop.width && y >= crop.y && y <= crop.y + crop.height) {
+      gesture.current = { mode: 'move', offsetX: crop.x - x, offsetY: crop.y - y };
+    } else {
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onGestureStart();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const current = gesture.current;
+    if (!current) return;
+    const { x, y } = toFramePoint(e);
+
+    if (current.mode === 'move') {
+      onChange({
+        ...crop,
+        x: clamp(x + current.offsetX, 0, frame.width - crop.width),
+        y: clamp(y + current.offsetY, 0, frame.height - crop.height),
+      });
+      return;
+    }
+
+    const { anchorX, anchorY } = current;
+    const signX = x < anchorX ? -1 : 1;
+    const signY = y < anchorY ? -1 : 1;
+    // Room between the anchor and the frame edge in the drag direction
+    const roomX = signX < 0 ? anchorX : frame.width - anchorX;
+    const roomY = signY < 0 ? anchorY : frame.height - anchorY;
+    const minSize = MIN_CROP * pixelSize;
+    let width = clamp(Math.abs(x - anchorX), minSize, roomX);
+    let height = clamp(Math.abs(y - anchorY), minSize, roomY);
+    if (ratio) {
+      // Follow whichever side the pointer pulls further, then fit the pair into the room left
+      if (width / height > ratio) height = width / ratio;
+      else width = height * ratio;
+      const shrink = Math.min(1, roomX / width, roomY / height);
+      width *= shrink;
+      height *= shrink;
+    }
+    onChange({
+      x: signX < 0 ? anchorX - width : anchorX,
+      y: signY < 0 ? anchorY - height : anchorY,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    gesture.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleSize = HANDLE_SIZE * pixelSize;
+  const stroke = 1.5 * pixelSize;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      preserveAspectRatio="none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 w-full h-full overflow-visible touch-none"
+    >
+      {/* Everything outside the crop is dimmed */}
+      <path
+        d={`M0 0H${frame.width}V${frame.height}H0Z M${crop.x} ${crop.y}v${crop.height}h${crop.width}v${-crop.height}Z`}
+        fill="rgba(0, 0, 0, 0.55)"
+        fillRule="evenodd"
+        pointerEvents="none"
+      />
+      <rect
+        x={crop.x}
+        y={crop.y}
+        width={crop.width}
+        height={crop.height}
+        fill="transparent"
+        stroke="#ffffff"
+        strokeWidth={stroke}
+        style={{ cursor: 'move' }}
+      />
+      {[1, 2].map(n => (
+        <g key={n} stroke="rgba(255, 255, 255, 0.5)" strokeWidth={pixelSize} pointerEvents="none">
+          <line x1={crop.x + (crop.width * n) / 3} y1={crop.y} x2={crop.x + (crop.width * n) / 3} y2={crop.y + crop.height} />
+          <line x1={crop.x} y1={crop.y + (crop.height * n) / 3} x2={crop.x + crop.width} y2={crop.y + (crop.height * n) / 3} />
+        </g>
+      ))}
+      {CORNERS.map((corner, i) => (
+        <rect
+          key={i}
+          data-corner={i}
+          x={crop.x + corner.x * crop.width - handleSize / 2}
+          y={crop.y + corner.y * crop.height - handleSize / 2}
+          width={handleSize}
+          height={handleSize}
+          fill="#ffffff"
+          stroke="#0A84FF"
+          strokeWidth={stroke}
+          style={{ cursor: corner.cursor }}
+        />
+      ))}
+    </svg>
+  );
+}
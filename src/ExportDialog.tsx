@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  EXPORT_FORMATS,
+  getFormatInfo,
+  getOutputSize,
+  resolveFilename,
+  type ExportOptions,
+} from './export';
+
+interface ExportDialogProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  // Used for the size and filename preview
+  sample: { name: string; width: number; height: number };
+  count: number;
+  // Whether any exported image is an animated GIF/APNG
+  hasAnimation: boolean;
+  // Exported PDFs and animations, which the invisible mark can't be written to
+  unmarkableCount: number;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const MAX_EDGE_PRESETS = [0, 4096, 2048, 1600, 1080];
+
+export default function ExportDialog({ options, onChange, sample, count, hasAnimation, unmarkableCount, onConfirm, onClose }: ExportDialogProps) {
+  const update = (updates: Partial<ExportOptions>) => onChange({ ...options, ...updates });
+  const output = getOutputSize(sample.width, sample.height, options.maxEdge);
+  const filename = resolveFilename(options.filenameTemplate, {
+    name: sample.name,
+    ext: getFormatInfo(options.format).ext,
+    index: 1,
+    ...output,
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-white rounded-[28px] shadow-2xl p-6 space-y-6 max-h-[85vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg tracking-tight">导出设置</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/5 text-black/40 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-black/40 uppercase">格式</span>
+          <div className="grid grid-cols-3 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => update({ format })}
+                className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                  options.format === format
+                  ? 'bg-white text-black shadow-sm'
+                  : 'text-black/40 hover:text-black/60'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options.format !== 'png' && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+              <span>质量</span>
+              <span>{Math.round(options.quality * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.01"
+              value={options.quality}
+              onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+              className="w-full accent-black"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+            <span>最长边</span>
+            <span>{output.width} × {output.height} px</span>
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            {MAX_EDGE_PRESETS.map(edge => (
+              <button
+                key={edge}
+                onClick={() => update({ maxEdge: edge })}
+                className={`h-8 rounded-lg border text-[10px] font-bold transition-all ${
+                  options.maxEdge === edge
+                  ? 'bg-black border-black text-white'
+                  : 'bg-white border-black/10 text-black/40 hover:border-black/30'
+                }`}
+              >
+                {edge === 0 ? '原图' : edge}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min="0"
+            value={options.maxEdge || ''}
+            onChange={(e) => update({ maxEdge: Math.max(0, parseInt(e.target.value) || 0) })}
+            placeholder="自定义最长边 (px)"
+            className="w-full px-4 py-2 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm transition-all"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-black/40 uppercase">文件名模板</span>
+          <input
+            type="text"
+            value={options.filenameTemplate}
+            onChange={(e) => update({ filenameTemplate: e.target.value })}
+            className="w-full px-4 py-2 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm font-mono transition-all"
+          />
+          <p className="text-[10px] text-black/40 leading-relaxed">
+            可用变量：{'{name}'} {'{ext}'} {'{index}'} {'{width}'} {'{height}'}
+          </p>
+          <p className="text-xs font-mono text-black/60 truncate">{filename}</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-black/40 uppercase">隐形水印</span>
+          <input
+            type="text"
+            value={options.invisibleOwnerId}
+            onChange={(e) => update({ invisibleOwnerId: e.target.value })}
+            placeholder="所有者 ID，留空则不写入"
+            className="w-full px-4 py-2 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm font-mono transition-all"
+          />
+          <p className="text-[10px] text-black/40 leading-relaxed">
+            {new TextEncoder().encode(options.invisibleOwnerId).length > 8
+              ? '超过 8 字节，多出的部分不会写入'
+              : '肉眼不可见，可在「验证」中读取所有者与导出时间'}
+          </p>
+          {options.invisibleOwnerId && unmarkableCount > 0 && (
+            <p className="text-[10px] font-medium text-amber-600 leading-relaxed">
+              {count > 1 ? `其中 ${unmarkableCount} 个 PDF 或动画文件` : 'PDF 和动画文件'}无法写入隐形水印，将只带可见水印导出
+            </p>
+          )}
+        </div>
+
+        {hasAnimation && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+              <span>动画淡入</span>
+              <span>{options.fadeInFrames > 0 ? `${options.fadeInFrames} 帧` : '关闭'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="30"
+              step="1"
+              value={options.fadeInFrames}
+              onChange={(e) => update({ fadeInFrames: parseInt(e.target.value) })}
+              className="w-full accent-black"
+            />
+            <p className="text-[10px] text-black/40 leading-relaxed">
+              GIF 和 APNG 保留原格式与帧时长导出，格式、质量和隐形水印设置不作用于动画
+            </p>
+          </div>
+        )}
+
+        <button
+          onClick={onConfirm}
+          className="w-full bg-black text-white py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 hover:bg-black/90 transition-all active:scale-[0.98] shadow-xl shadow-black/10"
+        >
+          <Download size={18} />
+          {count > 1 ? `导出 ${count} 张为 ZIP` : '下载'}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CheckCircle2, FileDown, FolderOpen, Loader2, Play, Square, X, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { getDesktop } from './desktop';
+import type { Preset } from './presets';
+import type { useHotFolder } from './useHotFolder';
+
+interface HotFolderDialogProps {
+  hotFolder: ReturnType<typeof useHotFolder>;
+  presets: Preset[];
+  onClose: () => void;
+}
+
+export default function HotFolderDialog({ hotFolder, presets, onClose }: HotFolderDialogProps) {
+  const { config, setConfig, running, queue, current, log } = hotFolder;
+  const canStart = !!config.inputDir && !!config.outputDir && presets.some(p => p.id === config.presetId);
+
+  const pickFolder = async (key: 'inputDir' | 'outputDir', title: string) => {
+    const folder = await getDesktop()?.pickFolder(title);
+    if (folder) setConfig(prev => ({ ...prev, [key]: folder }));
+  };
+
+  const folderRow = (key: 'inputDir' | 'outputDir', label: string) => (
+    <div className="space-y-2">
+      <label className="text-[10px] font-bold text-black/40 uppercase">{label}</label>
+      <button
+        onClick={() => pickFolder(key, label)}
+        disabled={running}
+        className="w-full px-3 py-2 bg-[#F5F5F7] rounded-xl text-sm flex items-center gap-2 text-left hover:bg-black/5 transition-all disabled:opacity-40"
+      >
+        <FolderOpen size={16} className="shrink-0 text-black/40" />
+        <span className={`truncate ${config[key] ? '' : 'text-black/30'}`}>{config[key]?.path ?? '选择文件夹'}</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-[28px] shadow-2xl p-6 space-y-6 max-h-[85vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg tracking-tight">监视文件夹</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/5 text-black/40 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="text-xs text-black/50 leading-relaxed">
+          放入输入文件夹的新图片会自动按所选预设加上水印，并以当前的导出设置保存到输出文件夹。已有的图片不会处理。
+        </p>
+
+        <div className="space-y-4">
+          {folderRow('inputDir', '输入文件夹')}
+          {folderRow('outputDir', '输出文件夹')}
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-black/40 uppercase">预设</label>
+            <select
+              value={config.presetId}
+              onChange={(e) => setConfig(prev => ({ ...prev, presetId: e.target.value }))}
+              className="w-full px-3 py-2 bg-[#F5F5F7] rounded-xl border-none outline-none text-sm"
+            >
+              <option value="" disabled>选择预设</option>
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            {presets.length === 0 && (
+              <p className="text-[10px] text-black/40">先在“预设”中保存一个水印方案</p>
+            )}
+          </div>
+        </div>
+
+        {hotFolder.error && <p className="text-xs text-red-500 text-center">{hotFolder.error}</p>}
+
+        <button
+          onClick={running ? hotFolder.stop : hotFolder.start}
+          disabled={!running && !canStart}
+          className={`w-full py-3 rounded-2xl text-sm font-semibold flex items-center justify-center gap-2 transition-all disabled:opacity-40 ${
+            running ? 'bg-[#F5F5F7] text-black hover:bg-black/5' : 'bg-black text-white hover:bg-black/90'
+          }`}
+        >
+          {running ? <><Square size={16} /> 停止监视</> : <><Play size={16} /> 开始监视</>}
+        </button>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-black/40 uppercase">
+            队列{queue.length > 0 ? ` · ${queue.length}` : ''}
+          </label>
+          {queue.length === 0 ? (
+            <p className="text-xs text-black/30">{running ? '等待新图片…' : '未在监视'}</p>
+          ) : (
+            <ul className="space-y-1">
+              {queue.map(file => (
+                <li key={file.path} className="flex items-center gap-2 text-xs">
+                  {file === current
+                    ? <Loader2 size={14} className="shrink-0 animate-spin text-black/60" />
+                    : <span className="w-3.5 h-3.5 shrink-0 rounded-full border border-black/20" />}
+                  <span className="truncate">{file.name}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-[10px] font-bold text-black/40 uppercase">
+              记录 · 完成 {log.filter(e => e.status === 'done').length} · 失败 {log.filter(e => e.status === 'failed').length}
+            </label>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={hotFolder.saveLog}
+                disabled={log.length === 0}
+                className="p-1 hover:bg-black/5 rounded-lg transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent"
+                title="保存记录 (CSV)"
+              >
+                <FileDown size={14} />
+              </button>
+              <button
+                onClick={hotFolder.clearLog}
+                disabled={log.length === 0}
+                className="text-[10px] font-bold text-black/40 hover:text-black/60 disabled:text-black/20 px-1"
+              >
+                清空
+              </button>
+            </div>
+          </div>
+          {log.length > 0 && (
+            <ul className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+              {log.map(entry => (
+                <li key={entry.id} className="flex items-start gap-2 text-xs">
+                  {entry.status === 'done'
+                    ? <CheckCircle2 size={14} className="shrink-0 mt-px text-emerald-500" />
+                    : <XCircle size={14} className="shrink-0 mt-px text-red-500" />}
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      {entry.name}
+                      <span className="text-black/30"> · {new Date(entry.time).toLocaleTimeString()}</span>
+                    </p>
+                    <p className={`truncate text-[10px] ${entry.status === 'done' ? 'text-black/40' : 'text-red-500'}`} title={entry.detail}>
+                      {entry.detail}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef } from 'react';
+import { FileUp, Users, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { parseRecipients, type PersonalizeSettings } from './personalize';
+
+interface PersonalizeDialogProps {
+  settings: PersonalizeSettings;
+  onChange: (settings: PersonalizeSettings) => void;
+  imageCount: number;
+  // Whether any visible text layer contains {recipient}
+  usesRecipient: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export default function PersonalizeDialog({ settings, onChange, imageCount, usesRecipient, onConfirm, onClose }: PersonalizeDialogProps) {
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const update = (updates: Partial<PersonalizeSettings>) => onChange({ ...settings, ...updates });
+  const recipients = parseRecipients(settings.recipients);
+  const fileCount = recipients.length * imageCount;
+  const jittered = settings.maxOffset > 0 || settings.maxRotation > 0;
+
+  const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) update({ recipients: await file.text() });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-white rounded-[28px] shadow-2xl p-6 space-y-6 max-h-[85vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg tracking-tight">按收件人分发</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/5 text-black/40 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-black/40 uppercase">收件人 · {recipients.length}</span>
+            <button
+              onClick={() => csvInputRef.current?.click()}
+              className="flex items-center gap-1 text-[10px] font-bold text-black/40 hover:text-black/60 uppercase"
+            >
+              <FileUp size={12} /> 导入 CSV
+            </button>
+            <input
+              type="file"
+              ref={csvInputRef}
+              onChange={handleCsvImport}
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+            />
+          </div>
+          <textarea
+            value={settings.recipients}
+            onChange={(e) => update({ recipients: e.target.value })}
+            rows={6}
+            placeholder={'每行一位，例如：\n星河影业\n李明 <li@example.com>'}
+            className="w-full px-4 py-3 bg-[#F5F5F7] rounded-xl border-none focus:ring-2 focus:ring-black/5 outline-none text-sm transition-all resize-none"
+          />
+          <p className="text-[10px] text-black/40 leading-relaxed">
+            CSV 取第一列，重复和空行会被忽略。在水印文字中用 {'{recipient}'} 写入收件人，
+            编辑时可写 {'{recipient|样张}'} 预览。
+          </p>
+          {!usesRecipient && (
+            <p className="text-[10px] text-amber-600 leading-relaxed">
+              当前水印没有使用 {'{recipient}'}，{jittered ? '各副本只有位置上的细微差别' : '各副本将完全相同'}。
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+              <span>位置抖动</span>
+              <span>±{settings.maxOffset}% 短边</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="5"
+              step="0.1"
+              value={settings.maxOffset}
+              onChange={(e) => update({ maxOffset: parseFloat(e.target.value) })}
+              className="w-full accent-black"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+              <span>旋转抖动</span>
+              <span>±{settings.maxRotation}°</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              step="0.5"
+              value={settings.maxRotation}
+              onChange={(e) => update({ maxRotation: parseFloat(e.target.value) })}
+              className="w-full accent-black"
+            />
+          </div>
+          <p className="text-[10px] text-black/40 leading-relaxed">
+            每位收件人的偏移由其名称决定，重新导出结果不变；平铺水印不抖动。
+          </p>
+        </div>
+
+        <p className="text-[10px] text-black/40 leading-relaxed">
+          使用当前的导出设置。ZIP 中每位收件人一个文件夹，并附带记录文件、收件人与 SHA-256 的 manifest.csv 和 manifest.json。
+        </p>
+
+        <button
+          onClick={onConfirm}
+          disabled={fileCount === 0}
+          className="w-full bg-black text-white py-4 rounded-2xl font-semibold flex items-center justify-center gap-2 hover:bg-black/90 transition-all active:scale-[0.98] shadow-xl shadow-black/10 disabled:opacity-40 disabled:active:scale-100"
+        >
+          <Users size={18} />
+          {fileCount > 0 ? `导出 ${fileCount} 个副本为 ZIP` : '请先填写收件人'}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
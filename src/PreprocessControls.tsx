@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Crop, FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw } from 'lucide-react';
+import {
+  CROP_ASPECTS,
+  MAX_OUTPUT_EDGE,
+  flipCrop,
+  turnCrop,
+  type CropAspect,
+  type Preprocess,
+  type QuarterTurn,
+} from './preprocess';
+
+interface PreprocessControlsProps {
+  preprocess: Preprocess;
+  onChange: (updates: Partial<Preprocess>, coalesceKey?: string) => void;
+  // Changing the aspect also refits the crop, which needs the image size
+  onAspectChange: (aspect: CropAspect, size?: { width: number; height: number }) => void;
+  cropping: boolean;
+  onToggleCrop: () => void;
+  // Processed size of the active image
+  outputSize: { width: number; height: number } | null;
+}
+
+// Common post sizes: each sets the crop ratio and the exact output size
+const SOCIAL_SIZES: { label: string; aspect: CropAspect; width: number; height: number }[] = [
+  { label: '1080 × 1080', aspect: '1:1', width: 1080, height: 1080 },
+  { label: '1080 × 1350', aspect: '4:5', width: 1080, height: 1350 },
+  { label: '1920 × 1080', aspect: '16:9', width: 1920, height: 1080 },
+  { label: '1080 × 1920', aspect: '9:16', width: 1080, height: 1920 },
+];
+
+const turn = (rotation: QuarterTurn, by: number) => (((rotation + by) % 360) + 360) % 360 as QuarterTurn;
+
+const SizeInput = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 bg-[#F5F5F7] rounded-xl">
+    <span className="text-[10px] font-bold text-black/40 uppercase">{label}</span>
+    <input
+      type="number"
+      min={0}
+      max={MAX_OUTPUT_EDGE}
+      value={value || ''}
+      placeholder="自动"
+      onChange={(e) => onChange(Math.min(MAX_OUTPUT_EDGE, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+      className="w-full min-w-0 bg-transparent border-none outline-none text-sm"
+    />
+  </label>
+);
+
+export default function PreprocessControls({
+  preprocess: pre,
+  onChange,
+  onAspectChange,
+  cropping,
+  onToggleCrop,
+  outputSize,
+}: PreprocessControlsProps) {
+  // Flips are applied after the rotation, so a single flip reverses the turn it has to ask for
+  const rotate = (clockwise: boolean) => onChange({
+    rotation: turn(pre.rotation, (clockwise ? 90 : -90) * (pre.flipX !== pre.flipY ? -1 : 1)),
+    crop: turnCrop(pre.crop, clockwise),
+  });
+
+  const orientButtons = [
+    { icon: RotateCcw, label: '向左旋转', onClick: () => rotate(false), active: false },
+    { icon: RotateCw, label: '向右旋转', onClick: () => rotate(true), active: false },
+    { icon: FlipHorizontal2, label: '水平翻转', onClick: () => onChange({ flipX: !pre.flipX, crop: flipCrop(pre.crop, true) }), active: pre.flipX },
+    { icon: FlipVertical2, label: '垂直翻转', onClick: () => onChange({ flipY: !pre.flipY, crop: flipCrop(pre.crop, false) }), active: pre.flipY },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold text-black/40 uppercase">方向</span>
+        <div className="grid grid-cols-4 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+          {orientButtons.map(({ icon: Icon, label, onClick, active }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              title={label}
+              className={`h-8 rounded-lg flex items-center justify-center transition-all ${
+                active ? 'bg-white text-black shadow-sm' : 'text-black/40 hover:text-black/60'
+              }`}
+            >
+              <Icon size={16} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-bold text-black/40 uppercase">裁剪比例</span>
+          <button
+            onClick={onToggleCrop}
+            className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+              cropping ? 'bg-black text-white' : 'text-black/60 hover:bg-black/5'
+            }`}
+          >
+            <Crop size={12} />
+            {cropping ? '完成裁剪' : '调整裁剪'}
+          </button>
+        </div>
+        <div className="grid grid-cols-4 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+          {CROP_ASPECTS.map(({ aspect, label }) => (
+            <button
+              key={aspect}
+              onClick={() => onAspectChange(aspect)}
+              className={`h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                pre.aspect === aspect ? 'bg-white text-black shadow-sm' : 'text-black/40 hover:text-black/60'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold text-black/40 uppercase">输出尺寸 (px)</span>
+        <div className="flex items-center gap-2">
+          <SizeInput label="宽" value={pre.width} onChange={width => onChange({ width }, 'preprocess:width')} />
+          <SizeInput label="高" value={pre.height} onChange={height => onChange({ height }, 'preprocess:height')} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {SOCIAL_SIZES.map(size => (
+            <button
+              key={size.label}
+              onClick={() => onAspectChange(size.aspect, { width: size.width, height: size.height })}
+              className={`py-2 rounded-xl text-[10px] font-bold tracking-wider transition-all border ${
+                pre.aspect === size.aspect && pre.width === size.width && pre.height === size.height
+                  ? 'bg-black text-white border-black'
+                  : 'bg-[#F5F5F7] text-black/60 border-transparent hover:border-black/10'
+              }`}
+            >
+              {size.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-black/40 leading-relaxed">
+          只填一边时按比例缩放；两边都填时裁掉多余部分以精确填满。
+          {outputSize && ` 当前输出 ${outputSize.width} × ${outputSize.height} px。`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronsLeftRight, SquareSplitHorizontal, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Frame } from './render';
+
+interface PreviewViewportProps {
+  frame: Frame;
+  // The unwatermarked bitmap, shown left of the divider while comparing
+  original: HTMLImageElement | HTMLCanvasElement;
+  // Changes with the image (or PDF page) and brings back the fitted view
+  viewKey: string;
+  // Screen px per frame px, whenever the zoom changes
+  onScaleChange: (scale: number) => void;
+  // Preview canvas and overlays, stretched over the image box
+  children: React.ReactNode;
+}
+
+// Top-left of the image box in viewport px, and its size as screen px per frame px
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Room left around the fitted image for the thumbnail strip and the floating bars
+const FIT_MARGIN_X = 48;
+const FIT_MARGIN_Y = 112;
+const MAX_SCALE = 16;
+const ZOOM_STEP = 1.25;
+// Some of a zoomed image always stays on screen
+const PAN_MARGIN = 64;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+  || (target instanceof HTMLElement && target.isContentEditable);
+
+/**
+ * Zoomable, pannable stage for the preview. The wheel and trackpad or touch pinches zoom
+ * around the pointer; Space-drag, middle-drag and two fingers pan. Sizes are applied as
+ * layout width/height rather than a CSS transform, so the overlays measure themselves as usual.
+ */
+export default function PreviewViewport({ frame, original, viewKey, onScaleChange, children }: PreviewViewportProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const originalRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // null follows the viewport size at the fitted zoom
+  const [view, setView] = useState<View | null>(null);
+  const [compare, setCompare] = useState(false);
+  // Share of the width showing the original
+  const [split, setSplit] = useState(0.5);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const pan = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const touches = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ view: View; distance: number; anchor: { x: number; y: number } } | null>(null);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const observer = new ResizeObserver(() => setSize({ width: root.clientWidth, height: root.clientHeight }));
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setView(null);
+  }, [viewKey]);
+
+  const fitScale = size.width > 0
+    ? Math.max(0.01, Math.min(1, (size.width - FIT_MARGIN_X * 2) / frame.width, (size.height - FIT_MARGIN_Y * 2) / frame.height))
+    : 1;
+  const fitView: View = {
+    x: (size.width - frame.width * fitScale) / 2,
+    y: (size.height - frame.height * fitScale) / 2,
+    scale: fitScale,
+  };
+  const current = view ?? fitView;
+
+  useEffect(() => {
+    if (size.width > 0) onScaleChange(current.scale);
+  }, [current.scale, size.width > 0]);
+
+  useEffect(() => {
+    const canvas = originalRef.current;
+    if (!canvas || !compare) return;
+    canvas.width = original.width;
+    canvas.height = original.height;
+    canvas.getContext('2d')?.drawImage(original, 0, 0);
+  }, [original, compare]);
+
+  // Centres an image smaller than the viewport, otherwise keeps PAN_MARGIN of it in view
+  const clampView = (next: View): View => {
+    const clampAxis = (position: number, content: number, available: number) => content <= available
+      ? (available - content) / 2
+      : Math.min(PAN_MARGIN, Math.max(available - content - PAN_MARGIN, position));
+    return {
+      x: clampAxis(next.x, frame.width * next.scale, size.width),
+      y: clampAxis(next.y, frame.height * next.scale, size.height),
+      scale: next.scale,
+    };
+  };
+
+  // Keeps the frame point under `point` (viewport px) where it is
+  const zoomAround = (from: View, scale: number, point: { x: number; y: number }) => {
+    const next = Math.min(MAX_SCALE, Math.max(Math.min(fitScale, 0.05), scale));
+    const ratio = next / from.scale;
+    return clampView({ x: point.x - (point.x - from.x) * ratio, y: point.y - (point.y - from.y) * ratio, scale: next });
+  };
+
+  const centre = { x: size.width / 2, y: size.height / 2 };
+  const zoomTo = (scale: number) => setView(prev => zoomAround(prev ?? fitView, scale, centre));
+
+  const toViewportPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // React wheel listeners are passive, and the page must not scroll or zoom underneath
+  const handleWheel = useRef<(e: WheelEvent) => void>(() => {});
+  handleWheel.current = (e: WheelEvent) => {
+    e.preventDefault();
+    const delta = e.deltaY * (e.deltaMode === 1 ? 16 : 1);
+    // Trackpad pinches arrive as ctrl+wheel with small deltas
+    const factor = Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002));
+    const point = toViewportPoint(e);
+    setView(prev => zoomAround(prev ?? fitView, (prev ?? fitView).scale * factor, point));
+  };
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const listener = (e: WheelEvent) => handleWheel.current(e);
+    root.addEventListener('wheel', listener, { passive: false });
+    return () => root.removeEventListener('wheel', listener);
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || isTyping(e.target)) return;
+      if (e.type === 'keydown') e.preventDefault();
+      setSpaceHeld(e.type === 'keydown');
+    };
+    const release = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+
+  // Runs before the overlays see the event, so panning and pinching never drag a layer
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'touch') {
+      touches.current.set(e.pointerId, toViewportPoint(e));
+      if (touches.current.size === 2) {
+        const [a, b] = [...touches.current.values()];
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        pinch.current = {
+          view: current,
+          distance: Math.max(1, distance(a, b)),
+          anchor: { x: (mid.x - current.x) / current.scale, y: (mid.y - current.y) / current.scale },
+        };
+        e.stopPropagation();
+      }
+      return;
+    }
+    if (e.button === 1 || (e.button === 0 && spaceHeld)) {
+      e.preventDefault();
+      e.stopPropagation();
+      pan.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (touches.current.has(e.pointerId)) {
+      touches.current.set(e.pointerId, toViewportPoint(e));
+      const start = pinch.current;
+      if (!start || touches.current.size < 2) return;
+      e.stopPropagation();
+      const [a, b] = [...touches.current.values()];
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const scale = Math.min(MAX_SCALE, Math.max(Math.min(fitScale, 0.05), start.view.scale * distance(a, b) / start.distance));
+      // The frame point that was between the fingers follows them
+      setView(clampView({ x: mid.x - start.anchor.x * scale, y: mid.y - start.anchor.y * scale, scale }));
+      return;
+    }
+    const drag = pan.current;
+    if (drag?.pointerId !== e.pointerId) return;
+    e.stopPropagation();
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    setView(prev => {
+      const from = prev ?? fitView;
+      return clampView({ ...from, x: from.x + dx, y: from.y + dy });
+    });
+  };
+
+  const handlePointerUpCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    touches.current.delete(e.pointerId);
+    if (touches.current.size < 2) pinch.current = null;
+    if (pan.current?.pointerId === e.pointerId) {
+      pan.current = null;
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const box = e.currentTarget.parentElement!.getBoundingClientRect();
+    setSplit(Math.min(1, Math.max(0, (e.clientX - box.left) / box.width)));
+  };
+
+  // 100% is one image pixel per screen pixel
+  const percent = Math.round(current.scale * window.devicePixelRatio * 100);
+  const buttonClass = 'p-1.5 hover:bg-black/5 rounded-full transition-colors text-black disabled:text-black/20 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      ref={rootRef}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerMoveCapture={handlePointerMoveCapture}
+      onPointerUpCapture={handlePointerUpCapture}
+      onPointerCancelCapture={handlePointerUpCapture}
+      className="absolute inset-0 overflow-hidden touch-none"
+    >
+      {/* Not clipped, so handles of layers near the edge stay reachable */}
+      <div
+        className="absolute shadow-2xl rounded-2xl bg-white border border-black/5"
+        style={{ left: current.x, top: current.y, width: frame.width * current.scale, height: frame.height * current.scale }}
+      >
+        {children}
+        {compare && (
+          <>
+            <canvas
+              ref={originalRef}
+              className="absolute inset-0 w-full h-full rounded-2xl pointer-events-none"
+              style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+            />
+            <span className="absolute top-3 left-3 px-2 py-1 rounded-lg bg-black/50 text-white text-[10px] font-bold uppercase tracking-widest pointer-events-none">
+              原图
+            </span>
+            <span className="absolute top-3 right-3 px-2 py-1 rounded-lg bg-black/50 text-white text-[10px] font-bold uppercase tracking-widest pointer-events-none">
+              水印
+            </span>
+            <div
+              onPointerDown={handleSplitDrag}
+              onPointerMove={handleSplitDrag}
+              className="absolute inset-y-0 -ml-3 w-6 flex justify-center cursor-ew-resize touch-none"
+              style={{ left: `${split * 100}%` }}
+            >
+              <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.4)]" />
+              <div className="absolute top-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white shadow-lg flex items-center justify-center text-black/60">
+                <ChevronsLeftRight size={14} />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {spaceHeld && <div className="absolute inset-0 cursor-grab active:cursor-grabbing" />}
+
+      <div className="absolute bottom-8 right-8 bg-white/80 backdrop-blur-md p-1 rounded-full border border-black/5 shadow-xl flex items-center gap-1">
+        <button onClick={() => zoomTo(current.scale / ZOOM_STEP)} className={buttonClass} title="缩小">
+          <ZoomOut size={16} />
+        </button>
+        <button
+          onClick={() => setView(null)}
+          className="w-12 text-xs font-bold text-black/60 tabular-nums hover:text-black transition-colors"
+          title="适合窗口"
+        >
+          {percent}%
+        </button>
+        <button onClick={() => zoomTo(current.scale * ZOOM_STEP)} disabled={current.scale >= MAX_SCALE} className={buttonClass} title="放大">
+          <ZoomIn size={16} />
+        </button>
+        <button
+          onClick={() => zoomTo(1 / window.devicePixelRatio)}
+          className="px-2 py-1 rounded-full text-xs font-bold text-black hover:bg-black/5 transition-colors"
+          title="1:1 像素"
+        >
+          1:1
+        </button>
+        <div className="w-px h-4 bg-black/10" />
+        <button
+          onClick={() => setCompare(c => !c)}
+          className={`p-1.5 rounded-full transition-colors ${compare ? 'bg-black text-white' : 'hover:bg-black/5 text-black'}`}
+          title="对比原图"
+        >
+          <SquareSplitHorizontal size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type { Frame, SmartPlacement } from './render';
+import type { SaliencyMap } from './saliency';
+
+interface SaliencyOverlayProps {
+  frame: Frame;
+  map: SaliencyMap;
+  // Candidates of the selected smart layer, outlined with their scores
+  placement: SmartPlacement | null;
+}
+
+// Calm cells stay clear, busy ones go from yellow to red
+const paintHeatmap = (canvas: HTMLCanvasElement, map: SaliencyMap) => {
+  canvas.width = map.cols;
+  canvas.height = map.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const pixels = ctx.createImageData(map.cols, map.rows);
+  map.values.forEach((v, i) => {
+    const p = i * 4;
+    pixels.data[p] = 255;
+    pixels.data[p + 1] = Math.round(220 * (1 - v));
+    pixels.data[p + 2] = 0;
+    pixels.data[p + 3] = Math.round(200 * Math.min(1, v * 1.5));
+  });
+  ctx.putImageData(pixels, 0, 0);
+};
+
+/** Busyness heatmap and smart-placement candidates, drawn over the preview and never exported. */
+export default function SaliencyOverlay({ frame, map, placement }: SaliencyOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) paintHeatmap(canvasRef.current, map);
+  }, [map]);
+
+  const labelSize = Math.min(frame.width, frame.height) * 0.025;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full rounded-2xl opacity-70" />
+      {placement && (
+        <svg viewBox={`0 0 ${frame.width} ${frame.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          {placement.candidates.map(({ position, box, score, blocked }) => {
+            const chosen = position === placement.position;
+            const color = chosen ? '#34C759' : blocked ? '#8E8E93' : '#ffffff';
+            return (
+              <g key={position} transform={`translate(${box.x} ${box.y}) rotate(${box.rotation})`}>
+                <rect
+                  x={-box.width / 2}
+                  y={-box.height / 2}
+                  width={box.width}
+                  height={box.height}
+                  fill={chosen ? 'rgba(52, 199, 89, 0.15)' : 'none'}
+                  stroke={color}
+                  strokeWidth={labelSize / 6}
+                  strokeDasharray={chosen ? undefined : `${labelSize / 2} ${labelSize / 3}`}
+                />
+                <text
+                  x={0}
+                  y={0}
+                  fill={color}
+                  fontSize={labelSize}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  stroke="rgba(0, 0, 0, 0.6)"
+                  strokeWidth={labelSize / 8}
+                  paintOrder="stroke"
+                >
+                  {blocked ? '重叠' : `${Math.round(score * 100)}%`}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { getBoxBounds, isPointInBox, type Frame, type WatermarkBox } from './render';
+
+export interface LayerBox {
+  id: string;
+  box: WatermarkBox;
+  // Outlined when selected, but never picked or dragged on the canvas
+  locked: boolean;
+}
+
+interface SelectionOverlayProps {
+  frame: Frame;
+  // Hit-testable layers in draw order, topmost last
+  layers: LayerBox[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // Fired once before the first change of each drag
+  onGestureStart: (id: string) => void;
+  // New box centre in frame px
+  onMove: (id: string, x: number, y: number) => void;
+  // Size relative to the start of the gesture
+  onScale: (id: string, factor: number) => void;
+  onRotate: (id: string, rotation: number) => void;
+}
+
+type Gesture =
+  | { mode: 'move'; id: string; offsetX: number; offsetY: number }
+  | { mode: 'scale'; id: string; box: WatermarkBox; startDistance: number }
+  | { mode: 'rotate'; id: string; box: WatermarkBox; startAngle: number };
+
+// Sizes in screen px, converted to frame px so handles look the same at any zoom
+const HANDLE_RADIUS = 6;
+const ROTATE_HANDLE_OFFSET = 28;
+// Thin text is hard to hit exactly, especially with a finger
+const HIT_TOLERANCE = 8;
+const ROTATE_SNAP = 15;
+// Screen px within which a dragged layer's edge or centre sticks to a guide
+const SNAP_DISTANCE = 6;
+
+const CORNERS = [
+  { x: -1, y: -1, cursor: 'nwse-resize' },
+  { x: 1, y: -1, cursor: 'nesw-resize' },
+  { x: 1, y: 1, cursor: 'nwse-resize' },
+  { x: -1, y: 1, cursor: 'nesw-resize' },
+];
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Keeps the angle in the -180…180 range the rotation slider uses
+const normalizeAngle = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+interface Guides {
+  x: number[];
+  y: number[];
+}
+
+// What a dragged layer snaps to: the frame's edges, thirds and centre lines, and the other layers' edges and centres
+const getSnapTargets = (frame: Frame, layers: LayerBox[], movingId: string): Guides => {
+  const targets: Guides = {
+    x: [0, frame.width / 3, frame.width / 2, (frame.width * 2) / 3, frame.width],
+    y: [0, frame.height / 3, frame.height / 2, (frame.height * 2) / 3, frame.height],
+  };
+  for (const layer of layers) {
+    if (layer.id === movingId) continue;
+    const bounds = getBoxBounds(layer.box);
+    targets.x.push(bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width);
+    targets.y.push(bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height);
+  }
+  return targets;
+};
+
+// Nearest target to the box's start edge, centre or end edge along one axis
+const snapAxis = (centre: number, size: number, targets: number[], maxDistance: number) => {
+  let best: { offset: number; guide: number } | null = null;
+  for (const edge of [-size / 2, 0, size / 2]) {
+    for (const guide of targets) {
+      const offset = guide - (centre + edge);
+      if (Math.abs(offset) <= maxDistance && (!best || Math.abs(offset) < Math.abs(best.offset))) best = { offset, guide };
+    }
+  }
+  return best;
+};
+
+/**
+ * Selection box, scale and rotation handles drawn over the preview canvas.
+ * It is plain SVG on top of the canvas, so it never ends up in an export.
+ */
+export default function SelectionOverlay({
+  frame,
+  layers,
+  selectedId,
+  onSelect,
+  onGestureStart,
+  onMove,
+  onScale,
+  onRotate,
+}: SelectionOverlayProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  // Frame px per screen px
+  const [pixelSize, setPixelSize] = useState(1);
+  const [hoverId, setHoverId] = useState<string | null>(null);
+  // Lines the dragged layer is currently snapped to
+  const [guides, setGuides] = useState<Guides>({ x: [], y: [] });
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(() => {
+      const { width } = svg.getBoundingClientRect();
+      if (width > 0) setPixelSize(frame.width / width);
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [frame.width]);
+
+  const selected = layers.find(layer => layer.id === selectedId) ?? null;
+
+  const toFramePoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * frame.width,
+      y: ((e.clientY - rect.top) / rect.height) * frame.height,
+    };
+  };
+
+  // The selected layer wins when layers overlap, otherwise the topmost one; locked layers are click-through
+  const hitTest = (x: number, y: number) => {
+    const tolerance = HIT_TOLERANCE * pixelSize;
+    if (selected && !selected.locked && isPointInBox(selected.box, x, y, tolerance)) return selected;
+    return [...layers].reverse().find(layer => !layer.locked && isPointInBox(layer.box, x, y, tolerance)) ?? null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    const { x, y } = toFramePoint(e);
+    const handle = (e.target as Element).getAttribute('data-handle');
+
+    if (selected && !selected.locked && handle === 'scale') {
+      const { box } = selected;
+      gesture.current = { mode: 'scale', id: selected.id, box, startDistance: Math.max(1, Math.hypot(x - box.x, y - box.y)) };
+    } else if (selected && !selected.locked && handle === 'rotate') {
+      const { box } = selected;
+      gesture.current = { mode: 'rotate', id: selected.id, box, startAngle: toDegrees(Math.atan2(y - box.y, x - box.x)) };
+    } else {
+      const hit = hitTest(x, y);
+      onSelect(hit?.id ?? null);
+      if (!hit) return;
+      // Keep the grab point under the pointer instead of snapping the centre to it
+      gesture.current = { mode: 'move', id: hit.id, offsetX: hit.box.x - x, offsetY: hit.box.y - y };
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onGestureStart(gesture.current.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { x, y } = toFramePoint(e);
+    const current = gesture.current;
+    if (!current) {
+      setHoverId(hitTest(x, y)?.id ?? null);
+      return;
+    }
+
+    switch (current.mode) {
+      case 'move': {
+        let centreX = x + current.offsetX;
+        let centreY = y + current.offsetY;
+        const moving = layers.find(layer => layer.id === current.id);
+        // Alt moves freely
+        if (moving && !e.altKey) {
+          const targets = getSnapTargets(frame, layers, current.id);
+          const bounds = getBoxBounds({ ...moving.box, x: centreX, y: centreY });
+          const snapX = snapAxis(centreX, bounds.width, targets.x, SNAP_DISTANCE * pixelSize);
+          const snapY = snapAxis(centreY, bounds.height, targets.y, SNAP_DISTANCE * pixelSize);
+          centreX += snapX?.offset ?? 0;
+          centreY += snapY?.offset ?? 0;
+          setGuides({ x: snapX ? [snapX.guide] : [], y: snapY ? [snapY.guide] : [] });
+        } else {
+          setGuides({ x: [], y: [] });
+        }
+        onMove(current.id, centreX, centreY);
+        break;
+      }
+      case 'scale':
+        onScale(current.id, Math.hypot(x - current.box.x, y - current.box.y) / current.startDistance);
+        break;
+      case 'rotate': {
+        let rotation = current.box.rotation + toDegrees(Math.atan2(y - current.box.y, x - current.box.x)) - current.startAngle;
+        if (e.shiftKey) rotation = Math.round(rotation / ROTATE_SNAP) * ROTATE_SNAP;
+        onRotate(current.id, Math.round(normalizeAngle(rotation)));
+        break;
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    gesture.current = null;
+    setGuides({ x: [], y: [] });
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleRadius = HANDLE_RADIUS * pixelSize;
+  const stroke = 1.5 * pixelSize;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      preserveAspectRatio="none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute inset-0 w-full h-full overflow-visible touch-none ${hoverId ? 'cursor-move' : 'cursor-default'}`}
+    >
+      {guides.x.map(x => (
+        <line key={`x${x}`} x1={x} y1={0} x2={x} y2={frame.height} stroke="#FF375F" strokeWidth={pixelSize} pointerEvents="none" />
+      ))}
+      {guides.y.map(y => (
+        <line key={`y${y}`} x1={0} y1={y} x2={frame.width} y2={y} stroke="#FF375F" strokeWidth={pixelSize} pointerEvents="none" />
+      ))}
+      {selected && (
+        <g transform={`translate(${selected.box.x} ${selected.box.y}) rotate(${selected.box.rotation})`}>
+          <rect
+            x={-selected.box.width / 2}
+            y={-selected.box.height / 2}
+            width={selected.box.width}
+            height={selected.box.height}
+            fill="none"
+            stroke="#0A84FF"
+            strokeWidth={stroke}
+            strokeDasharray={selected.locked ? `${4 * pixelSize} ${3 * pixelSize}` : undefined}
+          />
+          {!selected.locked && (
+            <>
+              <line
+                x1={0}
+                y1={-selected.box.height / 2}
+                x2={0}
+                y2={-selected.box.height / 2 - ROTATE_HANDLE_OFFSET * pixelSize}
+                stroke="#0A84FF"
+                strokeWidth={stroke}
+              />
+              <circle
+                data-handle="rotate"
+                cx={0}
+                cy={-selected.box.height / 2 - ROTATE_HANDLE_OFFSET * pixelSize}
+                r={handleRadius}
+                fill="#0A84FF"
+                stroke="#ffffff"
+                strokeWidth={stroke}
+                style={{ cursor: 'grab' }}
+              />
+              {CORNERS.map(corner => (
+                <circle
+                  key={`${corner.x},${corner.y}`}
+                  data-handle="scale"
+                  cx={(corner.x * selected.box.width) / 2}
+                  cy={(corner.y * selected.box.height) / 2}
+                  r={handleRadius}
+                  fill="#ffffff"
+                  stroke="#0A84FF"
+                  strokeWidth={stroke}
+                  style={{ cursor: corner.cursor }}
+                />
+              ))}
+            </>
+          )}
+        </g>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  getSuggestionProviders,
+  type SuggestionProvider,
+  type SuggestionRequest,
+  type WatermarkSuggestion,
+} from './suggestions';
+import { resolveText } from './textVariables';
+import { ANCHOR_LABELS, type Watermark } from './watermark';
+
+interface SuggestionsDialogProps {
+  // Built when the user asks, so it reflects the current image and layers
+  createRequest: () => SuggestionRequest;
+  onApply: (watermark: Watermark) => void;
+  onClose: () => void;
+}
+
+type SuggestState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; suggestions: WatermarkSuggestion[] }
+  | { status: 'error'; message: string };
+
+const describePosition = (wm: Watermark) => {
+  if (wm.layout === 'tiled') return '平铺';
+  if (wm.position === 'smart') return '智能避让';
+  if (wm.position === 'custom') return '自定义坐标';
+  return ANCHOR_LABELS[wm.position];
+};
+
+export default function SuggestionsDialog({ createRequest, onApply, onClose }: SuggestionsDialogProps) {
+  const [providers, setProviders] = useState<SuggestionProvider[]>([]);
+  const [providerId, setProviderId] = useState('');
+  const [state, setState] = useState<SuggestState>({ status: 'idle' });
+  const [request, setRequest] = useState<SuggestionRequest | null>(null);
+  const [appliedIds, setAppliedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    getSuggestionProviders().then(list => {
+      setProviders(list);
+      setProviderId(list[0]?.id ?? '');
+    });
+  }, []);
+
+  const generate = async () => {
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) return;
+    const next = createRequest();
+    setRequest(next);
+    setAppliedIds(new Set());
+    setState({ status: 'loading' });
+    try {
+      const suggestions = await provider.suggest(next);
+      setState({ status: 'done', suggestions });
+    } catch (err) {
+      setState({ status: 'error', message: err instanceof Error ? err.message : '获取建议失败' });
+    }
+  };
+
+  const apply = (suggestion: WatermarkSuggestion) => {
+    onApply(suggestion.watermark);
+    setAppliedIds(prev => new Set(prev).add(suggestion.id));
+  };
+
+  const reject = (id: string) => {
+    setState(prev => prev.status === 'done'
+      ? { status: 'done', suggestions: prev.suggestions.filter(s => s.id !== id) }
+      : prev);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-[28px] shadow-2xl p-6 space-y-6 max-h-[85vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg tracking-tight">智能建议</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/5 text-black/40 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value)}
+            className="flex-1 px-3 py-2 bg-[#F5F5F7] rounded-xl border-none outline-none text-sm"
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={generate}
+            disabled={!providerId || state.status === 'loading'}
+            className="px-4 bg-black text-white rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-black/90 transition-all disabled:opacity-40"
+          >
+            {state.status === 'loading' ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+            生成
+          </button>
+        </div>
+
+        {state.status === 'error' && (
+          <p className="text-xs text-red-500 text-center">{state.message}</p>
+        )}
+
+        {state.status === 'done' && state.suggestions.length === 0 && (
+          <p className="text-xs text-black/40 text-center">没有可用的建议</p>
+        )}
+
+        {state.status === 'done' && request && (
+          <div className="space-y-3">
+            {state.suggestions.map(suggestion => {
+              const wm = suggestion.watermark;
+              const applied = appliedIds.has(suggestion.id);
+              const preview = wm.type === 'text'
+                ? resolveText(wm.text, { metadata: request.metadata, width: request.width, height: request.height })
+                : wm.name;
+              return (
+                <div key={suggestion.id} className="p-4 bg-[#F5F5F7] rounded-2xl space-y-3">
+                  <div className="space-y-1">
+                    <p className="text-sm font-semibold break-words">{preview || '（空）'}</p>
+                    {wm.type === 'text' && preview !== wm.text && (
+                      <p className="text-[10px] font-mono text-black/40 break-all">{wm.text}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 text-[10px] font-bold text-black/50 uppercase">
+                    <span className="px-2 py-0.5 bg-white rounded-md">{describePosition(wm)}</span>
+                    <span className="px-2 py-0.5 bg-white rounded-md">{wm.relativeSize}% 短边</span>
+                    <span className="px-2 py-0.5 bg-white rounded-md">不透明度 {Math.round(wm.opacity * 100)}%</span>
+                    {wm.type === 'text' && (
+                      <span className="px-2 py-0.5 bg-white rounded-md flex items-center gap-1">
+                        {wm.colorMode === 'auto' ? '自动颜色' : (
+                          <>
+                            <span className="w-2 h-2 rounded-full border border-black/10" style={{ backgroundColor: wm.color }} />
+                            {wm.color.toUpperCase()}
+                          </>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                  {suggestion.reason && <p className="text-xs text-black/50 leading-relaxed">{suggestion.reason}</p>}
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => reject(suggestion.id)}
+                      className="py-2 rounded-xl text-xs font-bold text-black/40 hover:text-black/60 hover:bg-black/5 transition-all"
+                    >
+                      忽略
+                    </button>
+                    <button
+                      onClick={() => apply(suggestion)}
+                      disabled={applied}
+                      className="py-2 rounded-xl text-xs font-bold bg-black text-white hover:bg-black/90 transition-all disabled:bg-emerald-500 flex items-center justify-center gap-1"
+                    >
+                      {applied ? <><Check size={14} /> 已添加</> : '采用'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef } from 'react';
+import { AlignCenter, AlignLeft, AlignRight, Italic, Upload } from 'lucide-react';
+import { FONT_FILE_ACCEPT, FONT_WEIGHTS, SYSTEM_FONTS } from './fonts';
+import type { TextAlign, TextWatermark } from './watermark';
+
+interface TextStyleControlsProps {
+  watermark: TextWatermark;
+  onChange: (updates: Partial<TextWatermark>) => void;
+  // Fonts uploaded for any layer, so they can be reused without uploading again
+  uploadedFonts: Pick<TextWatermark, 'fontFamily' | 'fontSrc'>[];
+  onUploadFont: (file: File) => void;
+}
+
+const ALIGN_OPTIONS: { align: TextAlign; icon: typeof AlignLeft; label: string }[] = [
+  { align: 'left', icon: AlignLeft, label: '左对齐' },
+  { align: 'center', icon: AlignCenter, label: '居中' },
+  { align: 'right', icon: AlignRight, label: '右对齐' },
+];
+
+const Slider = ({ label, value, display, min, max, step = 1, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-black"
+    />
+  </div>
+);
+
+const ColorField = ({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) => (
+  <div className="flex items-center justify-between">
+    <span className="text-[10px] font-bold text-black/40 uppercase">{label}</span>
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-8 h-8 rounded-lg border-none cursor-pointer overflow-hidden"
+      />
+      <span className="text-xs font-mono text-black/60">{value.toUpperCase()}</span>
+    </div>
+  </div>
+);
+
+const Toggle = ({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) => (
+  <label className="flex items-center justify-between cursor-pointer">
+    <span className="text-[10px] font-bold text-black/40 uppercase">{label}</span>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-4 h-4 accent-black"
+    />
+  </label>
+);
+
+export default function TextStyleControls({ watermark: wm, onChange, uploadedFonts, onUploadFont }: TextStyleControlsProps) {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const isSystemFont = !wm.fontSrc && SYSTEM_FONTS.some(font => font.family === wm.fontFamily);
+
+  const handleFontUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onUploadFont(file);
+  };
+
+  const selectFont = (value: string) => {
+    if (value === '__upload') {
+      fontInputRef.current?.click();
+      return;
+    }
+    const uploaded = uploadedFonts.find(font => font.fontFamily === value);
+    onChange(uploaded ?? { fontFamily: value, fontSrc: '' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold text-black/40 uppercase">字体</span>
+        <select
+          value={wm.fontFamily}
+          onChange={(e) => selectFont(e.target.value)}
+          className="w-full px-3 py-2 bg-[#F5F5F7] rounded-xl border-none outline-none text-sm"
+        >
+          {SYSTEM_FONTS.map(font => (
+            <option key={font.family} value={font.family}>{font.label}</option>
+          ))}
+          {uploadedFonts.length > 0 && (
+            <optgroup label="已上传">
+              {uploadedFonts.map(font => (
+                <option key={font.fontFamily} value={font.fontFamily}>{font.fontFamily}</option>
+              ))}
+            </optgroup>
+          )}
+          {!isSystemFont && !uploadedFonts.some(font => font.fontFamily === wm.fontFamily) && (
+            <option value={wm.fontFamily}>{wm.fontFamily}</option>
+          )}
+          <option value="__upload">上传字体文件…</option>
+        </select>
+        <input
+          type="file"
+          ref={fontInputRef}
+          onChange={handleFontUpload}
+          accept={FONT_FILE_ACCEPT}
+          className="hidden"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={wm.fontWeight}
+          onChange={(e) => onChange({ fontWeight: parseInt(e.target.value) })}
+          className="flex-1 px-3 py-2 bg-[#F5F5F7] rounded-xl border-none outline-none text-sm"
+        >
+          {FONT_WEIGHTS.map(({ weight, label }) => (
+            <option key={weight} value={weight}>{label} · {weight}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange({ italic: !wm.italic })}
+          className={`w-9 h-9 flex items-center justify-center rounded-xl transition-all ${
+            wm.italic ? 'bg-black text-white' : 'bg-[#F5F5F7] text-black/40 hover:text-black/60'
+          }`}
+          title="斜体"
+        >
+          <Italic size={16} />
+        </button>
+        <button
+          onClick={() => fontInputRef.current?.click()}
+          className="w-9 h-9 flex items-center justify-center rounded-xl bg-[#F5F5F7] text-black/40 hover:text-black/60 transition-all"
+          title="上传字体 (TTF/OTF/WOFF)"
+        >
+          <Upload size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 p-1 bg-[#F5F5F7] rounded-xl">
+        {ALIGN_OPTIONS.map(({ align, icon: Icon, label }) => (
+          <button
+            key={align}
+            onClick={() => onChange({ textAlign: align })}
+            title={label}
+            className={`h-8 flex items-center justify-center rounded-lg transition-all ${
+              wm.textAlign === align ? 'bg-white text-black shadow-sm' : 'text-black/40 hover:text-black/60'
+            }`}
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+      </div>
+
+      <Slider
+        label="字间距"
+        value={wm.letterSpacing}
+        display={`${wm.letterSpacing}px`}
+        min={-10}
+        max={50}
+        onChange={letterSpacing => onChange({ letterSpacing })}
+      />
+      <Slider
+        label="行高"
+        value={wm.lineHeight}
+        display={wm.lineHeight.toFixed(1)}
+        min={0.8}
+        max={3}
+        step={0.1}
+        onChange={lineHeight => onChange({ lineHeight })}
+      />
+
+      <div className="space-y-4">
+        <Slider
+          label="描边"
+          value={wm.strokeWidth}
+          display={wm.strokeWidth ? `${wm.strokeWidth}px` : '关闭'}
+          min={0}
+          max={20}
+          step={0.5}
+          onChange={strokeWidth => onChange({ strokeWidth })}
+        />
+        {wm.strokeWidth > 0 && (
+          <ColorField label="描边颜色" value={wm.strokeColor} onChange={strokeColor => onChange({ strokeColor })} />
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <Toggle label="阴影" checked={wm.shadow} onChange={shadow => onChange({ shadow })} />
+        {wm.shadow && (
+          <>
+            <ColorField label="阴影颜色" value={wm.shadowColor} onChange={shadowColor => onChange({ shadowColor })} />
+            <Slider
+              label="模糊"
+              value={wm.shadowBlur}
+              display={`${wm.shadowBlur}px`}
+              min={0}
+              max={50}
+              onChange={shadowBlur => onChange({ shadowBlur })}
+            />
+            <Slider
+              label="水平偏移"
+              value={wm.shadowOffsetX}
+              display={`${wm.shadowOffsetX}px`}
+              min={-30}
+              max={30}
+              onChange={shadowOffsetX => onChange({ shadowOffsetX })}
+            />
+            <Slider
+              label="垂直偏移"
+              value={wm.shadowOffsetY}
+              display={`${wm.shadowOffsetY}px`}
+              min={-30}
+              max={30}
+              onChange={shadowOffsetY => onChange({ shadowOffsetY })}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <Toggle label="背景框" checked={wm.background} onChange={background => onChange({ background })} />
+        {wm.background && (
+          <>
+            <ColorField label="背景颜色" value={wm.backgroundColor} onChange={backgroundColor => onChange({ backgroundColor })} />
+            <Slider
+              label="背景不透明度"
+              value={wm.backgroundOpacity}
+              display={`${Math.round(wm.backgroundOpacity * 100)}%`}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={backgroundOpacity => onChange({ backgroundOpacity })}
+            />
+            <Slider
+              label="内边距"
+              value={wm.backgroundPadding}
+              display={`${wm.backgroundPadding}px`}
+              min={0}
+              max={100}
+              onChange={backgroundPadding => onChange({ backgroundPadding })}
+            />
+            <Slider
+              label="圆角"
+              value={wm.backgroundRadius}
+              display={`${wm.backgroundRadius}px`}
+              min={0}
+              max={100}
+              onChange={backgroundRadius => onChange({ backgroundRadius })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { FileSearch, ShieldAlert, ShieldCheck, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { MIN_INVISIBLE_SIZE, extractInvisibleMark, type ExtractionResult } from './invisible';
+
+interface VerifyDialogProps {
+  onClose: () => void;
+}
+
+type VerifyState =
+  | { status: 'idle' }
+  | { status: 'reading'; name: string }
+  | { status: 'done'; name: string; result: ExtractionResult }
+  | { status: 'error'; name: string; message: string };
+
+const readPixels = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('无法读取图片像素');
+    ctx.drawImage(img, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export default function VerifyDialog({ onClose }: VerifyDialogProps) {
+  const [state, setState] = useState<VerifyState>({ status: 'idle' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const verify = async (file: File) => {
+    setState({ status: 'reading', name: file.name });
+    try {
+      const result = extractInvisibleMark(await readPixels(file));
+      if (!result) {
+        setState({ status: 'error', name: file.name, message: `图片过小，至少需要 ${MIN_INVISIBLE_SIZE} × ${MIN_INVISIBLE_SIZE} px` });
+        return;
+      }
+      setState({ status: 'done', name: file.name, result });
+    } catch {
+      setState({ status: 'error', name: file.name, message: '无法解码该图片' });
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) verify(file);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/20 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-white rounded-[28px] shadow-2xl p-6 space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg tracking-tight">验证隐形水印</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/5 text-black/40 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={state.status === 'reading'}
+          className="w-full py-8 border-2 border-dashed border-black/10 rounded-2xl flex flex-col items-center gap-2 text-black/40 hover:border-black/30 hover:text-black/60 transition-all disabled:opacity-50"
+        >
+          <FileSearch size={24} />
+          <span className="text-xs font-medium truncate max-w-full px-4">
+            {state.status === 'idle' ? '选择要检测的图片' : state.name}
+          </span>
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept="image/*"
+          className="hidden"
+        />
+
+        {state.status === 'reading' && (
+          <p className="text-xs text-black/40 text-center">正在分析…</p>
+        )}
+
+        {state.status === 'error' && (
+          <p className="text-xs text-red-500 text-center">{state.message}</p>
+        )}
+
+        {state.status === 'done' && (
+          <div className="space-y-4">
+            <div className={`flex items-center gap-2 text-sm font-semibold ${state.result.valid ? 'text-emerald-600' : 'text-black/40'}`}>
+              {state.result.valid ? <ShieldCheck size={18} /> : <ShieldAlert size={18} />}
+              {state.result.valid ? '检测到隐形水印' : '未检测到有效的隐形水印'}
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-[10px] font-bold text-black/40 uppercase">
+                <span>置信度</span>
+                <span>{Math.round(state.result.confidence * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-black/5 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${state.result.valid ? 'bg-emerald-500' : 'bg-black/20'}`}
+                  style={{ width: `${state.result.confidence * 100}%` }}
+                />
+              </div>
+            </div>
+            {state.result.valid && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-xs">
+                <dt className="text-black/40">所有者</dt>
+                <dd className="font-mono truncate">{state.result.ownerId || '—'}</dd>
+                <dt className="text-black/40">导出时间</dt>
+                <dd className="font-mono">{state.result.timestamp.toLocaleString()}</dd>
+              </dl>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { decompressFrames, parseGIF } from 'gifuct-js';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import UPNG from 'upng-js';
+import type { AnimationFormat } from './animationInfo';
+import { getOutputSize } from './export';
+import { ExportCancelledError } from './exportClient';
+import { drawPreprocessed, isIdentityPreprocess, resolvePreprocess, type Preprocess } from './preprocess';
+import { drawWatermarks, resolveSmartPositions, type RenderOptions } from './render';
+import type { Watermark } from './watermark';
+
+/**
+ * Animated GIF and APNG. Frames are decoded to full-size RGBA images with their timing, the
+ * source's disposal already applied, so every frame is pre-processed and watermarked like a
+ * still image and written back as a complete frame in the source format.
+ */
+
+interface AnimationFrame {
+  // Full-size RGBA
+  pixels: Uint8ClampedArray;
+  // Milliseconds
+  delay: number;
+}
+
+interface DecodedAnimation {
+  width: number;
+  height: number;
+  frames: AnimationFrame[];
+  // GIF: -1 plays once, 0 loops forever, n repeats n times. APNG: 0 forever, n plays in total
+  loops: number;
+}
+
+// Logos decode to images, frames are drawn from canvases
+type AnimationImage = HTMLImageElement | HTMLCanvasElement;
+
+// Palette entries kept for the watermark's own colours, so thin strokes and small text
+// don't get snapped to whatever the photo's palette has nearby
+const MARK_COLORS = 48;
+
+const decodeGif = (buffer: ArrayBuffer): DecodedAnimation => {
+  const gif = parseGIF(buffer);
+  const { width, height } = gif.lsd;
+  const screen = new Uint8ClampedArray(width * height * 4);
+  const frames = decompressFrames(gif, true).map(frame => {
+    const { left, top, width: w, height: h } = frame.dims;
+    // Disposal 3 puts back what was there before this frame
+    const previous = frame.disposalType === 3 ? screen.slice() : null;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const from = (y * w + x) * 4;
+        if (frame.patch[from + 3] === 0 || left + x >= width || top + y >= height) continue;
+        screen.set(frame.patch.subarray(from, from + 4), ((top + y) * width + left + x) * 4);
+      }
+    }
+    const pixels = screen.slice();
+    if (frame.disposalType === 2) {
+      for (let y = top; y < Math.min(height, top + h); y++) {
+        screen.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + w)) * 4);
+      }
+    } else if (previous) {
+      screen.set(previous);
+    }
+    return { pixels, delay: frame.delay };
+  });
+
+  // NETSCAPE2.0 block: sub-block id 1, then the loop count as uint16 LE
+  const netscape = gif.frames.find(frame => 'application' in frame && frame.application.id.startsWith('NETSCAPE'));
+  const blocks = netscape && 'application' in netscape ? netscape.application.blocks : null;
+  return { width, height, frames, loops: blocks ? blocks[1] | (blocks[2] << 8) : -1 };
+};
+
+const decodeApng = (buffer: ArrayBuffer): DecodedAnimation => {
+  const png = UPNG.decode(buffer);
+  const frames = UPNG.toRGBA8(png).map((data, i) => ({
+    pixels: new Uint8ClampedArray(data),
+    delay: png.frames[i]?.delay ?? 100,
+  }));
+  return { width: png.width, height: png.height, frames, loops: png.tabs.acTL?.num_plays ?? 0 };
+};
+
+// One 256-colour palette per frame: most entries for the frame, a reserved share for the pixels
+// the watermark changed, and index 255 for transparency when the frame has any
+const encodeGifFrame = (base: Uint8ClampedArray, marked: Uint8ClampedArray) => {
+  const opaque = new Uint8Array(marked.length);
+  const mark = new Uint8Array(marked.length);
+  let opaqueLength = 0;
+  let markLength = 0;
+  for (let i = 0; i < marked.length; i += 4) {
+    if (marked[i + 3] < 128) continue;
+    const pixel = marked.subarray(i, i + 4);
+    opaque.set(pixel, opaqueLength);
+    opaqueLength += 4;
+    if (marked[i] !== base[i] || marked[i + 1] !== base[i + 1] || marked[i + 2] !== base[i + 2] || base[i + 3] < 128) {
+      mark.set(pixel, markLength);
+      markLength += 4;
+    }
+  }
+  const transparent = opaqueLength < marked.length;
+
+  const markPalette: number[][] = markLength > 0 ? quantize(mark.subarray(0, markLength), MARK_COLORS) : [];
+  const frameColors = 256 - markPalette.length - (transparent ? 1 : 0);
+  const palette: number[][] = [
+    ...(opaqueLength > 0 ? quantize(opaque.subarray(0, opaqueLength), frameColors) : [[0, 0, 0]]),
+    ...markPalette,
+  ];
+  const index: Uint8Array = applyPalette(marked, palette);
+  const transparentIndex = palette.length;
+  if (transparent) {
+    palette.push([0, 0, 0]);
+    for (let i = 0; i < index.length; i++) if (marked[i * 4 + 3] < 128) index[i] = transparentIndex;
+  }
+  return { index, palette, transparent, transparentIndex };
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// UPNG always writes "loop forever"; put the source's play count back into acTL
+const setApngPlays = (bytes: Uint8Array, plays: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 12 <= bytes.length; offset += 12 + view.getUint32(offset)) {
+    if (String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) !== 'acTL') continue;
+    view.setUint32(offset + 12, plays);
+    view.setUint32(offset + 16, crc32(bytes.subarray(offset + 4, offset + 16)));
+    break;
+  }
+  return bytes;
+};
+
+// Layers reach their own opacity over the first fadeInFrames frames
+const fadeLayers = (layers: Watermark[], frame: number, fadeInFrames: number) => {
+  if (frame >= fadeInFrames) return layers;
+  const amount = (frame + 1) / (fadeInFrames + 1);
+  return layers.map(wm => ({ ...wm, opacity: wm.opacity * amount }));
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Long animations yield between frames so progress and cancelling stay responsive
+const nextTask = () => new Promise(resolve => setTimeout(resolve));
+
+export type AnimationExportOptions = Omit<RenderOptions<AnimationImage>, 'backdrop'> & {
+  // Applied to every frame before the watermarks
+  preprocess: Preprocess;
+  // Longest output edge in px, 0 keeps the original size
+  maxEdge: number;
+  fadeInFrames: number;
+  // Checked between frames; once it returns true the export stops with ExportCancelledError
+  isCancelled?: () => boolean;
+};
+
+/** Watermarks every frame and encodes the result in the source format. */
+export const watermarkAnimation = async (
+  file: File,
+  format: AnimationFormat,
+  layers: Watermark[],
+  options: AnimationExportOptions
+) => {
+  const { preprocess, maxEdge, fadeInFrames, isCancelled, ...renderOptions } = options;
+  const buffer = await file.arrayBuffer();
+  const decoded = format === 'gif' ? decodeGif(buffer) : decodeApng(buffer);
+  const { frames, loops } = decoded;
+  if (frames.length === 0) throw new Error('无法读取动画帧');
+  const resolved = resolvePreprocess(decoded, preprocess);
+  const { frame } = resolved;
+  const { width, height } = frame;
+  const output = getOutputSize(width, height, maxEdge);
+
+  // Decoded frames go in at the source size and come out processed on the work canvas
+  const raw = createCanvas(decoded.width, decoded.height);
+  const rawCtx = raw.getContext('2d', { willReadFrequently: true })!;
+  const drawFrame = (ctx: CanvasRenderingContext2D, pixels: Uint8ClampedArray) => {
+    // Unprocessed frames keep their exact semi-transparent pixels
+    if (isIdentityPreprocess(preprocess)) {
+      ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+      return;
+    }
+    rawCtx.putImageData(new ImageData(pixels, decoded.width, decoded.height), 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    drawPreprocessed<AnimationImage>(ctx, raw, preprocess, resolved);
+  };
+
+  const work = createCanvas(width, height);
+  const workCtx = work.getContext('2d', { willReadFrequently: true })!;
+  const scaled = createCanvas(output.width, output.height);
+  const scaledCtx = scaled.getContext('2d', { willReadFrequently: true })!;
+  scaledCtx.imageSmoothingQuality = 'high';
+  const readScaled = () => {
+    scaledCtx.clearRect(0, 0, output.width, output.height);
+    scaledCtx.drawImage(work, 0, 0, output.width, output.height);
+    return scaledCtx.getImageData(0, 0, output.width, output.height).data;
+  };
+
+  // Placement and auto colour follow the first frame, so the mark holds still while the image moves
+  const first = createCanvas(width, height);
+  const firstCtx = first.getContext('2d', { willReadFrequently: true })!;
+  drawFrame(firstCtx, frames[0].pixels);
+  const placed = resolveSmartPositions<AnimationImage>(firstCtx, frame, layers, renderOptions).layers;
+
+  const gif = format === 'gif' ? GIFEncoder() : null;
+  const apngFrames: ArrayBuffer[] = [];
+  for (const [i, { pixels, delay }] of frames.entries()) {
+    if (isCancelled?.()) throw new ExportCancelledError();
+    drawFrame(workCtx, pixels);
+    const base = gif ? readScaled() : null;
+    drawWatermarks<AnimationImage>(workCtx, frame, fadeLayers(placed, i, fadeInFrames), { ...renderOptions, backdrop: firstCtx });
+    const marked = readScaled();
+    if (gif && base) {
+      const { index, palette, transparent, transparentIndex } = encodeGifFrame(base, marked);
+      // Every frame is complete, so each one clears the last instead of drawing over it
+      gif.writeFrame(index, output.width, output.height, { palette, delay, transparent, transparentIndex, repeat: loops, dispose: 2 });
+    } else {
+      apngFrames.push(marked.slice().buffer);
+    }
+    await nextTask();
+  }
+
+  let bytes: Uint8Array;
+  if (gif) {
+    gif.finish();
+    bytes = gif.bytes();
+  } else {
+    // 0 colours keeps the frames lossless
+    const encoded = UPNG.encode(apngFrames, output.width, output.height, 0, frames.map(f => f.delay));
+    bytes = setApngPlays(new Uint8Array(encoded), loops);
+  }
+  return { bytes, width, height };
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parseGIF, type ParsedGif } from 'gifuct-js';
+
+/**
+ * Recognising animated GIFs and APNGs, kept apart from the encoders in animation.ts so the
+ * CLI can skip them under Node.
+ */
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface AnimationInfo {
+  format: AnimationFormat;
+  frameCount: number;
+}
+
+// acTL has to come before the first IDAT, so an APNG is recognised from its first chunks
+const readApngFrameCount = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 12 <= bytes.length; offset += 12 + view.getUint32(offset)) {
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'acTL') return view.getUint32(offset + 8);
+    if (type === 'IDAT') break;
+  }
+  return 0;
+};
+
+const isGifImageFrame = (frame: ParsedGif['frames'][number]) => 'image' in frame;
+
+/** Tells animated GIFs and APNGs apart from still images; null for anything else. */
+export const detectAnimation = async (file: File): Promise<AnimationInfo | null> => {
+  try {
+    if (file.type === 'image/gif' || /\.gif$/i.test(file.name)) {
+      const frameCount = parseGIF(await file.arrayBuffer()).frames.filter(isGifImageFrame).length;
+      return frameCount > 1 ? { format: 'gif', frameCount } : null;
+    }
+    if (file.type === 'image/png' || file.type === 'image/apng' || /\.a?png$/i.test(file.name)) {
+      const frameCount = readApngFrameCount(new Uint8Array(await file.slice(0, 1 << 20).arrayBuffer()));
+      return frameCount > 1 ? { format: 'apng', frameCount } : null;
+    }
+  } catch {
+    // Broken files are treated as stills and fail on decode like any other image
+  }
+  return null;
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AutoColorStyle } from './watermark';
+
+/**
+ * Automatic watermark colour. The pixels under a layer are summarised once per render,
+ * then a fill is chosen whose contrast ratio (WCAG 2 definition) against that background
+ * reaches the layer's target, taking the layer opacity into account.
+ */
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BackgroundStats {
+  // Average sRGB colour, 0–255
+  r: number;
+  g: number;
+  b: number;
+  // Relative luminance (0–1) of the average colour and its spread across the samples
+  luminance: number;
+  luminanceSpread: number;
+}
+
+export interface AutoColorResult {
+  color: string;
+  // Set when the fill alone misses the target or the background is busy
+  outline: string | null;
+}
+
+interface PixelReader {
+  getImageData(sx: number, sy: number, sw: number, sh: number): { data: Uint8ClampedArray };
+}
+
+// Reading whole regions of a large photo is slow, a few dozen rows describe the background well enough
+const SAMPLE_ROWS = 48;
+// Luminance standard deviation above which text needs an outline to stay legible
+const BUSY_SPREAD = 0.18;
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const relativeLuminance = (r: number, g: number, b: number) =>
+  0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+
+export const contrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+/** Summarises the pixels inside the rectangle, which is clipped to the frame first. */
+export const sampleBackground = (ctx: PixelReader, frame: { width: number; height: number }, rect: Rect): BackgroundStats | null => {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(frame.width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(frame.height, Math.ceil(rect.y + rect.height));
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const width = x1 - x0;
+  const rows = Math.min(SAMPLE_ROWS, y1 - y0);
+  // Columns are subsampled the same way, keeping the work bounded for any region size
+  const step = Math.max(1, Math.floor(width / 256));
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let sumL = 0;
+  let sumL2 = 0;
+  let count = 0;
+
+  for (let i = 0; i < rows; i++) {
+    const y = y0 + Math.floor(((i + 0.5) * (y1 - y0)) / rows);
+    const { data } = ctx.getImageData(x0, y, width, 1);
+    for (let x = 0; x < width; x += step) {
+      const p = x * 4;
+      const l = relativeLuminance(data[p], data[p + 1], data[p + 2]);
+      r += data[p];
+      g += data[p + 1];
+      b += data[p + 2];
+      sumL += l;
+      sumL2 += l * l;
+      count++;
+    }
+  }
+
+  r /= count;
+  g /= count;
+  b /= count;
+  const mean = sumL / count;
+  return {
+    r,
+    g,
+    b,
+    luminance: relativeLuminance(r, g, b),
+    luminanceSpread: Math.sqrt(Math.max(0, sumL2 / count - mean * mean)),
+  };
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('')}`;
+
+const hslToRgb = (h: number, s: number, l: number) => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return 255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return [channel(0), channel(8), channel(4)] as const;
+};
+
+const getHue = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === min) return 0;
+  const d = max - min;
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return h * 60;
+};
+
+// Contrast of a colour drawn at `opacity` over the background
+const blendedContrast = (rgb: readonly number[], opacity: number, bg: BackgroundStats) => {
+  const mix = (c: number, base: number) => c * opacity + base * (1 - opacity);
+  return contrastRatio(relativeLuminance(mix(rgb[0], bg.r), mix(rgb[1], bg.g), mix(rgb[2], bg.b)), bg.luminance);
+};
+
+/**
+ * Picks the fill for a layer over the given background. 'mono' chooses white or black;
+ * 'tint' uses the complementary hue and moves its lightness away from the background
+ * only as far as the target needs.
+ */
+export const pickAutoColor = (
+  bg: BackgroundStats,
+  options: { style: AutoColorStyle; target: number; opacity: number; outline: boolean }
+): AutoColorResult => {
+  const white = [255, 255, 255] as const;
+  const black = [0, 0, 0] as const;
+  const light = blendedContrast(white, options.opacity, bg) >= blendedContrast(black, options.opacity, bg);
+  let rgb: readonly number[] = light ? white : black;
+
+  if (options.style === 'tint') {
+    const hue = (getHue(bg.r, bg.g, bg.b) + 180) % 360;
+    // Search from the mid tone towards the extreme on the contrasting side
+    let lo = 0.5;
+    let hi = light ? 1 : 0;
+    if (blendedContrast(hslToRgb(hue, 0.7, hi), options.opacity, bg) >= options.target) {
+      for (let i = 0; i < 12; i++) {
+        const mid = (lo + hi) / 2;
+        if (blendedContrast(hslToRgb(hue, 0.7, mid), options.opacity, bg) >= options.target) hi = mid;
+        else lo = mid;
+      }
+      rgb = hslToRgb(hue, 0.7, hi);
+    }
+  }
+
+  const reached = blendedContrast(rgb, options.opacity, bg) >= options.target;
+  const needsOutline = options.outline && (!reached || bg.luminanceSpread > BUSY_SPREAD);
+  return {
+    color: toHex(rgb[0], rgb[1], rgb[2]),
+    outline: needsOutline ? (light ? '#000000' : '#ffffff') : null,
+  };
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * What electron/preload.cjs exposes as window.desktop. Only present in the desktop app;
+ * the web build runs without it and hides the desktop-only features.
+ */
+
+export interface HotFolderFile {
+  // Absolute path inside the watched input folder
+  path: string;
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+// A folder the user chose in the native picker. The main process only acts on folders it handed
+// out this session and knows them by id; the path is for display
+export interface PickedFolder {
+  id: string;
+  path: string;
+}
+
+export interface DesktopBridge {
+  // Native folder picker; null when cancelled
+  pickFolder: (title?: string) => Promise<PickedFolder | null>;
+  // Native save dialog that writes the data to the chosen path; null when cancelled
+  saveFile: (defaultName: string, data: Uint8Array) => Promise<string | null>;
+  hotFolder: {
+    start: (inputId: string, outputId: string) => Promise<void>;
+    stop: () => Promise<void>;
+    read: (path: string) => Promise<Uint8Array>;
+    // Writes into the output folder without overwriting; resolves to the path written
+    write: (name: string, data: Uint8Array) => Promise<string>;
+    // Both return an unsubscribe function
+    onFile: (callback: (file: HotFolderFile) => void) => () => void;
+    onError: (callback: (message: string) => void) => () => void;
+  };
+}
+
+declare global {
+  interface Window {
+    desktop?: DesktopBridge;
+  }
+}
+
+export const getDesktop = (): DesktopBridge | null => window.desktop ?? null;
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface ImageMetadata {
+  fileName: string;
+  fileDate: Date | null;
+  // EXIF orientation 1–8, 1 when the file has none
+  orientation: number;
+  make?: string;
+  model?: string;
+  lens?: string;
+  artist?: string;
+  copyright?: string;
+  dateTaken?: Date;
+  fNumber?: number;
+  exposureTime?: number;
+  iso?: number;
+  focalLength?: number;
+}
+
+type TagValue = string | number | number[];
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// The EXIF block is an APP1 segment of at most 64 KB near the start of the file
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean) => {
+  const tags = new Map<number, TagValue>();
+  const entryCount = view.getUint16(tiffStart + offset, little);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = tiffStart + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * count;
+    if (size === 0) continue;
+
+    const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < count; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else if (type === 5 || type === 10) {
+      const values: number[] = [];
+      for (let j = 0; j < count; j++) {
+        const numerator = type === 5 ? view.getUint32(valueOffset + j * 8, little) : view.getInt32(valueOffset + j * 8, little);
+        const denominator = type === 5 ? view.getUint32(valueOffset + j * 8 + 4, little) : view.getInt32(valueOffset + j * 8 + 4, little);
+        values.push(denominator ? numerator / denominator : 0);
+      }
+      tags.set(tag, count === 1 ? values[0] : values);
+    } else if (type === 3) {
+      tags.set(tag, view.getUint16(valueOffset, little));
+    } else if (type === 4 || type === 9) {
+      tags.set(tag, type === 4 ? view.getUint32(valueOffset, little) : view.getInt32(valueOffset, little));
+    }
+  }
+  return tags;
+};
+
+const readTiff = (view: DataView, tiffStart: number) => {
+  const little = view.getUint16(tiffStart) === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 0x002a) return null;
+
+  const tags = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const exifOffset = tags.get(TAGS.exifIfd);
+  if (typeof exifOffset === 'number') {
+    readIfd(view, tiffStart, exifOffset, little).forEach((value, tag) => tags.set(tag, value));
+  }
+  return tags;
+};
+
+// Walks the JPEG segments up to the APP1 "Exif" block
+const findExifTags = (view: DataView) => {
+  if (view.byteLength < 4) return null;
+
+  // Bare TIFF files start with the byte order mark directly
+  if (view.getUint16(0) === 0x4949 || view.getUint16(0) === 0x4d4d) return readTiff(view, 0);
+  if (view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+
+    // "Exif\0\0" header in front of the TIFF structure
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return readTiff(view, offset + 10);
+    }
+    // Start of scan: no metadata after this point
+    if (marker === 0xda) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const parseExifDate = (value: TagValue | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute, second);
+};
+
+const asString = (value: TagValue | undefined) => typeof value === 'string' && value ? value : undefined;
+const asNumber = (value: TagValue | undefined) => typeof value === 'number' && value > 0 ? value : undefined;
+
+/** Reads file metadata plus the EXIF tags used for text variables. Files without EXIF still resolve. */
+export const readImageMetadata = async (file: File): Promise<ImageMetadata> => {
+  const metadata: ImageMetadata = {
+    fileName: file.name,
+    fileDate: file.lastModified ? new Date(file.lastModified) : null,
+    orientation: 1,
+  };
+
+  try {
+    const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+    const tags = findExifTags(new DataView(buffer));
+    if (!tags) return metadata;
+
+    const orientation = tags.get(TAGS.orientation);
+    return {
+      ...metadata,
+      orientation: typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      make: asString(tags.get(TAGS.make)),
+      model: asString(tags.get(TAGS.model)),
+      lens: asString(tags.get(TAGS.lensModel)),
+      artist: asString(tags.get(TAGS.artist)),
+      copyright: asString(tags.get(TAGS.copyright)),
+      dateTaken: parseExifDate(tags.get(TAGS.dateTimeOriginal)),
+      fNumber: asNumber(tags.get(TAGS.fNumber)),
+      exposureTime: asNumber(tags.get(TAGS.exposureTime)),
+      iso: asNumber(tags.get(TAGS.iso)),
+      focalLength: asNumber(tags.get(TAGS.focalLength)),
+    };
+  } catch {
+    // Truncated or malformed EXIF is treated as missing
+    return metadata;
+  }
+};
+
+// JPEG start-of-frame markers; C4, C8 and CC share the range but are other segments
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const readJpegSize = (view: DataView) => {
+  let offset = 2;
+  while (offset + 9 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (isStartOfFrame(marker)) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    if (marker === 0xda) return null;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+/**
+ * Stored pixel size from the file header of a JPEG, PNG, GIF, WebP or BMP, without decoding it;
+ * null for other or truncated files. EXIF orientation is not applied.
+ */
+export const readImageSize = (view: DataView): { width: number; height: number } | null => {
+  try {
+    const magic = view.getUint32(0);
+    // PNG: the IHDR chunk follows the signature
+    if (magic === 0x89504e47) return { width: view.getUint32(16), height: view.getUint32(20) };
+    // GIF: logical screen size
+    if (magic === 0x47494638) return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    if (magic >>> 16 === 0xffd8) return readJpegSize(view);
+    // BMP: info header, the height is negative for top-down rows
+    if (magic >>> 16 === 0x424d) return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+    // WebP: "RIFF" size "WEBP", then a lossy, lossless or extended first chunk
+    if (magic === 0x52494646 && view.getUint32(8) === 0x57454250) {
+      switch (view.getUint32(12)) {
+        case 0x56503820: return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        case 0x5650384c: {
+          const bits = view.getUint32(21, true);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+        }
+        case 0x56503858: return {
+          width: (view.getUint16(24, true) | (view.getUint8(26) << 16)) + 1,
+          height: (view.getUint16(27, true) | (view.getUint8(29) << 16)) + 1,
+        };
+      }
+    }
+    return null;
+  } catch {
+    // Read past the end of a truncated header
+    return null;
+  }
+};
+
+/** Size of the image once its EXIF orientation is applied. */
+export const getOrientedSize = (width: number, height: number, orientation: number) =>
+  orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+
+/**
+ * Sets up the transform that draws a raw, sideways-stored image upright
+ * at (0, 0) on a canvas of getOrientedSize().
+ */
+export const applyOrientation = (
+  ctx: { transform(a: number, b: number, c: number, d: number, e: number, f: number): void },
+  orientation: number,
+  width: number,
+  height: number
+) => {
+  // Standard EXIF orientation transforms
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+// Browsers that understand image-orientation rotate decoded images themselves (the default since 2020)
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+/**
+ * Returns an upright image. Only older engines need the manual transform;
+ * everywhere else the decoded image is already rotated and is returned as-is.
+ */
+export const orientImage = async (img: HTMLImageElement, orientation: number) => {
+  if (orientation <= 1 || orientation > 8 || browserAppliesOrientation()) return img;
+
+  const { width, height } = img;
+  const canvas = document.createElement('canvas');
+  const size = getOrientedSize(width, height, orientation);
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return img;
+
+  applyOrientation(ctx, orientation, width, height);
+  ctx.drawImage(img, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+  if (!blob) return img;
+
+  return new Promise<HTMLImageElement>((resolve) => {
+    const upright = new Image();
+    upright.onload = () => resolve(upright);
+    upright.onerror = () => resolve(img);
+    upright.src = URL.createObjectURL(blob);
+  });
+};
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { embedInvisibleMark } from './invisible';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0–1, ignored for PNG
+  quality: number;
+  // Longest output edge in px, 0 keeps the original size
+  maxEdge: number;
+  // Tokens: {name} {ext} {index} {width} {height}
+  filenameTemplate: string;
+  // Owner ID hidden in the pixels by the invisible mark, empty to skip it
+  invisibleOwnerId: string;
+  // Animated GIF/APNG: frames over which the watermark fades in, 0 shows it from the start
+  fadeInFrames: number;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mime: string; ext: string }[] = [
+  { format: 'png', label: 'PNG', mime: 'image/png', ext: 'png' },
+  { format: 'jpeg', label: 'JPEG', mime: 'image/jpeg', ext: 'jpg' },
+  { format: 'webp', label: 'WebP', mime: 'image/webp', ext: 'webp' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  maxEdge: 0,
+  filenameTemplate: '{name}_wm.{ext}',
+  invisibleOwnerId: '',
+  fadeInFrames: 0,
+};
+
+const STORAGE_KEY = 'qianxiang-watermark:export';
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_EXPORT_OPTIONS;
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+export const getFormatInfo = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(f => f.format === format) ?? EXPORT_FORMATS[0];
+
+export const getBaseName = (filename: string) => filename.replace(/\.[^.]+$/, '') || 'image';
+
+export const getOutputSize = (width: number, height: number, maxEdge: number) => {
+  const scale = maxEdge > 0 ? Math.min(1, maxEdge / Math.max(width, height)) : 1;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+export const resolveFilename = (
+  template: string,
+  values: { name: string; ext: string; index: number; width: number; height: number }
+) => {
+  const filename = (template.trim() || DEFAULT_EXPORT_OPTIONS.filenameTemplate)
+    .replace(/\{(name|ext|index|width|height)\}/g, (_, token: keyof typeof values) => String(values[token]))
+    .replace(/[\\/:*?"<>|]/g, '_');
+  // Templates without {ext} still need one so the file opens
+  return filename.toLowerCase().endsWith(`.${values.ext}`) ? filename : `${filename}.${values.ext}`;
+};
+
+// Appends _2, _3… before the extension until the name is free
+export const makeUniqueName = (filename: string, usedNames: Set<string>) => {
+  const dot = filename.lastIndexOf('.');
+  let uniqueName = filename;
+  for (let n = 2; usedNames.has(uniqueName); n++) uniqueName = `${filename.slice(0, dot)}_${n}${filename.slice(dot)}`;
+  usedNames.add(uniqueName);
+  return uniqueName;
+};
+
+// The editor renders on DOM canvases, the export worker on OffscreenCanvas
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+const createCanvasLike = (like: RenderCanvas, width: number, height: number): RenderCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined' && like instanceof OffscreenCanvas) return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Downscales the rendered canvas to the export size. JPEG has no alpha channel,
+ * so transparent areas are flattened onto white instead of turning black.
+ * The invisible mark goes in last so it matches the pixels that get encoded.
+ */
+export const prepareOutputCanvas = (source: RenderCanvas, options: ExportOptions) => {
+  const { width, height } = getOutputSize(source.width, source.height, options.maxEdge);
+  const needsCopy = width !== source.width || height !== source.height || options.format === 'jpeg' || !!options.invisibleOwnerId;
+  if (!needsCopy) return source;
+
+  const canvas = createCanvasLike(source, width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) return source;
+
+  if (options.format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  if (options.invisibleOwnerId) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    embedInvisibleMark(pixels, { ownerId: options.invisibleOwnerId, timestamp: new Date() });
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: RenderCanvas, type: string, quality?: number) => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片编码失败')), type, quality);
+  });
+};
+
+export const encodeCanvas = (canvas: RenderCanvas, options: ExportOptions) => {
+  const output = prepareOutputCanvas(canvas, options);
+  return canvasToBlob(output, getFormatInfo(options.format).mime, options.format === 'png' ? undefined : options.quality);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ExportOptions } from './export';
+import type { ExportJob, ExportStage, ExportWorkerMessage } from './exportWorker';
+import type { Watermark } from './watermark';
+
+export type { ExportStage };
+
+export interface ExportResult {
+  blob: Blob;
+  // Size of the rendered source, before the export downscale
+  width: number;
+  height: number;
+  // File extension when it differs from the export format (PDF documents stay PDFs)
+  ext?: string;
+}
+
+// Rough share of one image's export time spent before each stage starts, for the progress bar
+export const EXPORT_STAGES: Record<ExportStage, { label: string; progress: number }> = {
+  decode: { label: '正在读取', progress: 0 },
+  render: { label: '正在渲染', progress: 0.2 },
+  encode: { label: '正在编码', progress: 0.6 },
+};
+
+export class ExportCancelledError extends Error {}
+
+// The job could not run in the worker; the caller renders it on the page instead
+export class WorkerUnsupportedError extends Error {}
+
+interface PendingJob {
+  resolve: (result: ExportResult) => void;
+  reject: (err: Error) => void;
+  onStage: (stage: ExportStage) => void;
+}
+
+let worker: Worker | null = null;
+// Set once the worker fails to start (no module workers, blocked by CSP); the page renders from then on
+let workerBroken = false;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+const failAll = (err: Error) => {
+  pending.forEach(job => job.reject(err));
+  pending.clear();
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ExportWorkerMessage>) => {
+    const message = e.data;
+    const job = pending.get(message.id);
+    if (!job) return;
+    if (message.type === 'stage') {
+      job.onStage(message.stage);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'done') job.resolve({ blob: message.blob, width: message.width, height: message.height });
+    else if (message.type === 'unsupported') job.reject(new WorkerUnsupportedError());
+    else job.reject(new Error(message.message));
+  };
+  worker.onerror = () => {
+    failAll(new WorkerUnsupportedError());
+    worker?.terminate();
+    worker = null;
+    workerBroken = true;
+  };
+  return worker;
+};
+
+/**
+ * Whether these layers can be exported in the worker. SVG logos are left to the page:
+ * as ImageBitmaps they would be rasterised at their intrinsic size and lose sharpness.
+ */
+export const canExportInWorker = (layers: Watermark[]) =>
+  !workerBroken &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function' &&
+  !layers.some(wm => wm.type === 'image' && wm.src.startsWith('data:image/svg'));
+
+/** Renders and encodes one image in the worker. The source and logo bitmaps are transferred. */
+export const renderInWorker = (
+  job: Omit<ExportJob, 'id'>,
+  onStage: (stage: ExportStage) => void
+) => new Promise<ExportResult>((resolve, reject) => {
+  const id = nextJobId++;
+  pending.set(id, { resolve, reject, onStage });
+  getWorker().postMessage({ id, ...job }, [job.source, ...job.logos.map(([, logo]) => logo)]);
+});
+
+/** Abandons every running job; the worker is restarted for the next one. */
+export const cancelExports = () => {
+  worker?.terminate();
+  worker = null;
+  failAll(new ExportCancelledError());
+};
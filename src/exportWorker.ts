@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageMetadata } from './exif';
+import { encodeCanvas, type ExportOptions } from './export';
+import { canLoadFonts, ensureFontsLoaded } from './fonts';
+import { preprocessImage, type Preprocess } from './preprocess';
+import { renderWatermarkedImage, type LayerJitter, type ScratchLayer } from './render';
+import type { SaliencyMap } from './saliency';
+import type { Watermark } from './watermark';
+
+/**
+ * Full-resolution export off the main thread. The page decodes the upright source and
+ * the logos into ImageBitmaps and transfers them here; layout, effects, the invisible
+ * mark and encoding all run on an OffscreenCanvas through the same code as the preview.
+ */
+
+export type ExportStage = 'decode' | 'render' | 'encode';
+
+export interface ExportJob {
+  id: number;
+  source: ImageBitmap;
+  logos: [string, ImageBitmap][];
+  layers: Watermark[];
+  // Crop, orientation and resize applied to the source before the watermarks
+  preprocess: Preprocess;
+  metadata: ImageMetadata;
+  // The map the preview placed smart layers with
+  saliency: SaliencyMap | null;
+  // Personalized copies only
+  recipient?: string;
+  jitter?: Record<string, LayerJitter>;
+  options: ExportOptions;
+}
+
+export type ExportWorkerMessage =
+  | { id: number; type: 'stage'; stage: ExportStage }
+  | { id: number; type: 'done'; blob: Blob; width: number; height: number }
+  // The page renders the job itself instead, e.g. when uploaded fonts cannot be loaded here
+  | { id: number; type: 'unsupported' }
+  | { id: number; type: 'error'; message: string };
+
+type Drawable = ImageBitmap | OffscreenCanvas;
+
+const post = (message: ExportWorkerMessage) => self.postMessage(message);
+
+const createLayer = (width: number, height: number) =>
+  new OffscreenCanvas(width, height).getContext('2d') as unknown as ScratchLayer<Drawable>;
+
+const runJob = async ({ id, source, logos, layers, preprocess, metadata, saliency, recipient, jitter, options }: ExportJob) => {
+  if (layers.some(wm => wm.type === 'text' && wm.fontSrc) && !canLoadFonts()) {
+    post({ id, type: 'unsupported' });
+    return;
+  }
+  await ensureFontsLoaded(layers);
+
+  post({ id, type: 'stage', stage: 'render' });
+  const base = preprocessImage<Drawable>(source, preprocess, createLayer);
+  const canvas = new OffscreenCanvas(base.width, base.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    post({ id, type: 'unsupported' });
+    return;
+  }
+  const logoMap = new Map<string, Drawable>(logos);
+  renderWatermarkedImage<Drawable>(ctx, base, layers, {
+    getLogo: src => logoMap.get(src) ?? null,
+    metadata,
+    createLayer,
+    saliency,
+    recipient,
+    jitter,
+  });
+  source.close();
+  logos.forEach(([, logo]) => logo.close());
+
+  post({ id, type: 'stage', stage: 'encode' });
+  const blob = await encodeCanvas(canvas, options);
+  post({ id, type: 'done', blob, width: canvas.width, height: canvas.height });
+};
+
+self.onmessage = (e: MessageEvent<ExportJob>) => {
+  runJob(e.data).catch(err => {
+    post({ id: e.data.id, type: 'error', message: err instanceof Error ? err.message : '导出失败' });
+  });
+};
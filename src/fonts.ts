@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getFontString } from './render';
+import type { TextWatermark, Watermark } from './watermark';
+
+export interface FontOption {
+  family: string;
+  label: string;
+}
+
+// Common families on Windows, macOS and Android; missing ones fall back to sans-serif
+export const SYSTEM_FONTS: FontOption[] = [
+  { family: 'Inter', label: 'Inter' },
+  { family: 'PingFang SC', label: '苹方' },
+  { family: 'Microsoft YaHei', label: '微软雅黑' },
+  { family: 'Noto Sans SC', label: '思源黑体' },
+  { family: 'Noto Serif SC', label: '思源宋体' },
+  { family: 'SimSun', label: '宋体' },
+  { family: 'KaiTi', label: '楷体' },
+  { family: 'Arial', label: 'Arial' },
+  { family: 'Georgia', label: 'Georgia' },
+  { family: 'Times New Roman', label: 'Times New Roman' },
+  { family: 'Courier New', label: 'Courier New' },
+];
+
+export const FONT_WEIGHTS = [
+  { weight: 300, label: '细' },
+  { weight: 400, label: '常规' },
+  { weight: 500, label: '中等' },
+  { weight: 700, label: '粗' },
+  { weight: 900, label: '特粗' },
+];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+// The file name doubles as the family name; quotes and backslashes would break the font shorthand
+export const getFontFamilyName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/["\\]/g, '').trim() || '自定义字体';
+
+// The document's fonts on the page, the worker's own set inside the export worker
+const getFontSet = (): FontFaceSet | undefined =>
+  typeof document !== 'undefined' ? document.fonts : (self as unknown as { fonts?: FontFaceSet }).fonts;
+
+/** False where uploaded fonts cannot be registered, e.g. workers in older engines. */
+export const canLoadFonts = () => typeof FontFace !== 'undefined' && !!getFontSet();
+
+const fontFaces = new Map<string, Promise<boolean>>();
+
+/** Registers an uploaded font for canvas text; resolves false when the browser rejects the file. */
+export const loadFontFace = (family: string, src: string) => {
+  const key = `${family}\n${src}`;
+  let pending = fontFaces.get(key);
+  if (!pending) {
+    pending = new FontFace(family, `url(${src})`).load().then(
+      face => {
+        getFontSet()?.add(face);
+        return true;
+      },
+      () => false
+    );
+    fontFaces.set(key, pending);
+  }
+  return pending;
+};
+
+const readyFonts = new Set<string>();
+
+/**
+ * Waits until every text layer's font can be drawn. Canvas text never waits for a font,
+ * so this must settle before rendering. Resolves true when a font became available
+ * that was not before, i.e. the preview needs a redraw.
+ */
+export const ensureFontsLoaded = async (layers: Watermark[]) => {
+  const results = await Promise.all(layers.map(async wm => {
+    if (wm.type !== 'text') return false;
+    const font = getFontString(wm);
+    if (readyFonts.has(font)) return false;
+    if (wm.fontSrc) await loadFontFace(wm.fontFamily, wm.fontSrc);
+    await getFontSet()?.load(font, wm.text).catch(() => undefined);
+    readyFonts.add(font);
+    return true;
+  }));
+  return results.some(Boolean);
+};
+
+/** Uploaded fonts used by any of the layers, for the family picker. */
+export const getUploadedFonts = (layers: Watermark[]) => {
+  const fonts = new Map<string, Pick<TextWatermark, 'fontFamily' | 'fontSrc'>>();
+  layers.forEach(wm => {
+    if (wm.type === 'text' && wm.fontSrc) fonts.set(wm.fontFamily, { fontFamily: wm.fontFamily, fontSrc: wm.fontSrc });
+  });
+  return [...fonts.values()];
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Type, type Schema } from '@google/genai';
+import { TEXT_VARIABLES } from './textVariables';
+import { ANCHOR_POSITIONS } from './watermark';
+import { toSuggestion, type RawSuggestion, type SuggestionProvider, type WatermarkSuggestion } from './suggestions';
+
+const MODEL = 'gemini-2.5-flash';
+
+const RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      position: { type: Type.STRING, enum: [...ANCHOR_POSITIONS, 'smart'] },
+      size: { type: Type.NUMBER },
+      opacity: { type: Type.NUMBER },
+      color: { type: Type.STRING },
+      rotation: { type: Type.NUMBER },
+      tiled: { type: Type.BOOLEAN },
+      reason: { type: Type.STRING },
+    },
+    required: ['text', 'position', 'size', 'opacity', 'color', 'reason'],
+  },
+};
+
+const buildPrompt = (width: number, height: number, metadata: Record<string, unknown>, existing: string[]) => `
+You suggest watermarks for a photo. Look at the image, find where the subject is and which areas are calm,
+then propose 3 to 4 different text watermarks (e.g. credit line, caption, anti-copy mark).
+
+Image size: ${width} × ${height} px.
+Metadata: ${JSON.stringify(metadata)}
+Texts already on the image: ${existing.length ? JSON.stringify(existing) : 'none'}
+
+Rules for each suggestion:
+- text: short; may use these placeholders, filled from the photo's metadata: ${TEXT_VARIABLES.map(v => `{${v.key}}`).join(' ')}.
+  A fallback goes after a pipe, e.g. {author|Studio}.
+- position: an anchor that keeps the text off the subject, or "smart" to let the app pick the calmest corner.
+- size: text height as a percentage of the image's short edge, usually 2–6.
+- opacity: 0.1–1. color: "#rrggbb", or "auto" for a colour contrasting with the background.
+- rotation: degrees, optional. tiled: true repeats the text over the whole image (use low opacity).
+- reason: one short sentence in Simplified Chinese explaining the choice.
+`.trim();
+
+/** Gemini vision model: sees the (downscaled) photo itself, not just its metadata. */
+export const createGeminiProvider = (apiKey: string): SuggestionProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    label: `Gemini（${MODEL}）`,
+    suggest: async ({ image, width, height, metadata, existing }) => {
+      const [header, data = ''] = image.split(',', 2);
+      const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/jpeg';
+      const { fileName, make, model, lens, artist, copyright, dateTaken } = metadata ?? {};
+      const existingTexts = existing.flatMap(wm => wm.type === 'text' ? [wm.text] : []);
+
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data } },
+            { text: buildPrompt(width, height, { fileName, make, model, lens, artist, copyright, dateTaken }, existingTexts) },
+          ],
+        }],
+        config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+      });
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text ?? '');
+      } catch {
+        throw new Error('Gemini 返回的内容无法解析');
+      }
+      if (!Array.isArray(parsed)) throw new Error('Gemini 返回的内容无法解析');
+      return parsed
+        .map(raw => toSuggestion(raw as Partial<RawSuggestion>))
+        .filter((s): s is WatermarkSuggestion => s !== null);
+    },
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Invisible ownership mark.
+ *
+ * The image is split into a GRID × GRID lattice whose cells scale with the image,
+ * so mild resizing keeps every cell over the same content. Each cell carries one
+ * payload bit by nudging its (smoothly windowed) mean luminance onto one of two
+ * interleaved quantisation lattices. Cell means are barely touched by JPEG
+ * re-compression, and every bit is repeated across ~9 scattered cells so clipped
+ * or damaged cells are outvoted.
+ *
+ * Payload: 8 bytes owner ID (UTF-8, zero padded) + 4 bytes timestamp (seconds) + CRC-16.
+ */
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface InvisiblePayload {
+  ownerId: string;
+  timestamp: Date;
+}
+
+export interface ExtractionResult extends InvisiblePayload {
+  // 0–1, how strongly the cells agree with the decoded bits
+  confidence: number;
+  // CRC matched: the payload was found rather than read out of noise
+  valid: boolean;
+}
+
+const GRID = 32;
+const OWNER_BYTES = 8;
+const PAYLOAD_BYTES = OWNER_BYTES + 4 + 2;
+const PAYLOAD_BITS = PAYLOAD_BYTES * 8;
+// Quantisation step in luminance levels: larger survives harsher JPEG, smaller is less visible
+const STEP = 6;
+// Images smaller than this cannot hold reliable cells
+export const MIN_INVISIBLE_SIZE = GRID * 4;
+
+// Deterministic shuffle so repeated bits are spread over the whole image
+const createCellOrder = () => {
+  const order = Array.from({ length: GRID * GRID }, (_, i) => i);
+  let seed = 0x5eed1234;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+const CELL_ORDER = createCellOrder();
+
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+};
+
+const encodePayload = ({ ownerId, timestamp }: InvisiblePayload) => {
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  bytes.set(new TextEncoder().encode(ownerId).slice(0, OWNER_BYTES));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(OWNER_BYTES, Math.floor(timestamp.getTime() / 1000));
+  view.setUint16(OWNER_BYTES + 4, crc16(bytes.subarray(0, OWNER_BYTES + 4)));
+
+  const bits: number[] = [];
+  bytes.forEach(byte => {
+    for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+  });
+  return bits;
+};
+
+const decodePayload = (bits: number[]) => {
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7));
+  });
+  const view = new DataView(bytes.buffer);
+  const owner = bytes.subarray(0, OWNER_BYTES);
+  const end = owner.indexOf(0);
+  return {
+    ownerId: new TextDecoder().decode(end === -1 ? owner : owner.subarray(0, end)),
+    timestamp: new Date(view.getUint32(OWNER_BYTES) * 1000),
+    crcOk: view.getUint16(OWNER_BYTES + 4) === crc16(bytes.subarray(0, OWNER_BYTES + 4)),
+  };
+};
+
+// Tukey window: flat in the middle, cosine taper over the outer quarter so cells leave no visible edges
+const taper = (u: number) => {
+  const edge = 0.25;
+  if (u < edge) return Math.sin((Math.PI / 2) * (u / edge)) ** 2;
+  if (u > 1 - edge) return Math.sin((Math.PI / 2) * ((1 - u) / edge)) ** 2;
+  return 1;
+};
+
+const cellBounds = (cell: number, width: number, height: number) => {
+  const col = cell % GRID;
+  const row = Math.floor(cell / GRID);
+  return {
+    x0: Math.floor((col * width) / GRID),
+    x1: Math.floor(((col + 1) * width) / GRID),
+    y0: Math.floor((row * height) / GRID),
+    y1: Math.floor(((row + 1) * height) / GRID),
+  };
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Windowed mean luminance of one cell, plus the window sums needed to shift it
+const measureCell = (pixels: PixelBuffer, cell: number) => {
+  const { x0, x1, y0, y1 } = cellBounds(cell, pixels.width, pixels.height);
+  let sumW = 0;
+  let sumW2 = 0;
+  let sumWY = 0;
+  for (let y = y0; y < y1; y++) {
+    const wy = taper((y - y0 + 0.5) / (y1 - y0));
+    for (let x = x0; x < x1; x++) {
+      const w = wy * taper((x - x0 + 0.5) / (x1 - x0));
+      const i = (y * pixels.width + x) * 4;
+      sumW += w;
+      sumW2 += w * w;
+      sumWY += w * luminance(pixels.data, i);
+    }
+  }
+  return { mean: sumW ? sumWY / sumW : 0, sumW, sumW2 };
+};
+
+const shiftCell = (pixels: PixelBuffer, cell: number, amount: number) => {
+  const { x0, x1, y0, y1 } = cellBounds(cell, pixels.width, pixels.height);
+  for (let y = y0; y < y1; y++) {
+    const wy = taper((y - y0 + 0.5) / (y1 - y0));
+    for (let x = x0; x < x1; x++) {
+      const delta = amount * wy * taper((x - x0 + 0.5) / (x1 - x0));
+      const i = (y * pixels.width + x) * 4;
+      // Equal RGB shift moves luminance by the same amount without changing hue
+      pixels.data[i] += delta;
+      pixels.data[i + 1] += delta;
+      pixels.data[i + 2] += delta;
+    }
+  }
+};
+
+/** Writes the payload into the pixel buffer in place. */
+export const embedInvisibleMark = (pixels: PixelBuffer, payload: InvisiblePayload) => {
+  if (pixels.width < MIN_INVISIBLE_SIZE || pixels.height < MIN_INVISIBLE_SIZE) return false;
+  const bits = encodePayload(payload);
+
+  CELL_ORDER.forEach((cell, slot) => {
+    const offset = bits[slot % PAYLOAD_BITS] ? STEP / 2 : 0;
+    // Second pass corrects what clipping at 0/255 swallowed in the first
+    for (let pass = 0; pass < 2; pass++) {
+      const { mean, sumW, sumW2 } = measureCell(pixels, cell);
+      if (!sumW2) return;
+      const target = Math.round((mean - offset) / STEP) * STEP + offset;
+      shiftCell(pixels, cell, ((target - mean) * sumW) / sumW2);
+    }
+  });
+  return true;
+};
+
+/** Reads the payload back; `valid` is false when no mark (or a damaged one) is present. */
+export const extractInvisibleMark = (pixels: PixelBuffer): ExtractionResult | null => {
+  if (pixels.width < MIN_INVISIBLE_SIZE || pixels.height < MIN_INVISIBLE_SIZE) return null;
+
+  // +1 votes for bit 0 (lattice at multiples of STEP), -1 for bit 1 (half a step off)
+  const votes = new Array<number>(PAYLOAD_BITS).fill(0);
+  const counts = new Array<number>(PAYLOAD_BITS).fill(0);
+  CELL_ORDER.forEach((cell, slot) => {
+    const { mean } = measureCell(pixels, cell);
+    votes[slot % PAYLOAD_BITS] += Math.cos((2 * Math.PI * mean) / STEP);
+    counts[slot % PAYLOAD_BITS]++;
+  });
+
+  const bits = votes.map(vote => (vote < 0 ? 1 : 0));
+  const agreement = votes.reduce((sum, vote, i) => sum + Math.abs(vote) / counts[i], 0) / PAYLOAD_BITS;
+  const { ownerId, timestamp, crcOk } = decodePayload(bits);
+
+  // Unmarked images still average ~0.2 agreement from noise, so rescale that to 0
+  const strength = Math.min(1, Math.max(0, (agreement - 0.2) / 0.7));
+  return {
+    ownerId,
+    timestamp,
+    confidence: crcOk ? strength : strength * 0.25,
+    valid: crcOk && strength > 0.3,
+  };
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/// <reference types="vite/client" />
+
+import { BlendMode as PdfBlendMode, PDFDocument, degrees } from 'pdf-lib';
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { canvasToBlob } from './export';
+import { ExportCancelledError } from './exportClient';
+import { drawWatermarks, resolveSmartPositions, type Frame, type RenderOptions } from './render';
+import { computeSaliency } from './saliency';
+import type { BlendMode, Watermark } from './watermark';
+
+/**
+ * PDF documents: pages are rendered with pdf.js for the preview and as the backdrop that
+ * auto colour and smart placement look at. The export keeps the original pages untouched
+ * (vector text stays text) and stamps the watermarks on top as transparent PNG layers.
+ */
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Frame px per PDF point: an A4 page lays out as 1190 × 1684, close to a 144 dpi scan
+export const PDF_SCALE = 2;
+
+// Logos decode to images, pages render to canvases
+type PdfImage = HTMLImageElement | HTMLCanvasElement;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const loadPdf = async (file: File): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+/** Layout frame of a page, already rotated the way viewers show it. */
+export const getPdfPageFrame = async (doc: PDFDocumentProxy, index: number): Promise<Frame> => {
+  const viewport = (await doc.getPage(index + 1)).getViewport({ scale: PDF_SCALE });
+  return { width: Math.round(viewport.width), height: Math.round(viewport.height) };
+};
+
+/** Renders one page (0-based) with its long edge at most maxEdge px, on white like a viewer. */
+export const renderPdfPage = async (doc: PDFDocumentProxy, index: number, maxEdge = Infinity): Promise<HTMLCanvasElement> => {
+  const page = await doc.getPage(index + 1);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: Math.min(PDF_SCALE, maxEdge / Math.max(base.width, base.height)) });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(viewport.width));
+  canvas.height = Math.max(1, Math.round(viewport.height));
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return canvas;
+};
+
+/**
+ * Pages selected by a range list such as "1-3, 5, 8-" (1-based, open ends allowed),
+ * as 0-based indexes. An empty list selects every page.
+ */
+export const parsePageRanges = (text: string, pageCount: number): Set<number> => {
+  const pages = new Set<number>();
+  if (!text.trim()) {
+    for (let i = 0; i < pageCount; i++) pages.add(i);
+    return pages;
+  }
+  for (const part of text.split(/[,，\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d*)\s*[-–~]\s*(\d*)$/) ?? part.match(/^(\d+)$/);
+    if (!match) throw new Error(`页码范围“${part}”格式不正确`);
+    const from = match[1] ? parseInt(match[1], 10) : 1;
+    const to = match.length > 2 ? (match[2] ? parseInt(match[2], 10) : pageCount) : from;
+    for (let page = Math.max(1, from); page <= Math.min(pageCount, to); page++) pages.add(page - 1);
+  }
+  return pages;
+};
+
+const PDF_BLEND_MODES: Record<BlendMode, PdfBlendMode> = {
+  normal: PdfBlendMode.Normal,
+  multiply: PdfBlendMode.Multiply,
+  screen: PdfBlendMode.Screen,
+  overlay: PdfBlendMode.Overlay,
+  'soft-light': PdfBlendMode.SoftLight,
+  'hard-light': PdfBlendMode.HardLight,
+  darken: PdfBlendMode.Darken,
+  lighten: PdfBlendMode.Lighten,
+  'color-dodge': PdfBlendMode.ColorDodge,
+  'color-burn': PdfBlendMode.ColorBurn,
+  difference: PdfBlendMode.Difference,
+  exclusion: PdfBlendMode.Exclusion,
+  // PDF has Luminosity, but pdf-lib does not expose it
+  luminosity: PdfBlendMode.Normal,
+};
+
+// Consecutive layers sharing a blend mode go on one transparent layer, blended by the viewer
+const groupByBlendMode = (layers: Watermark[]) => {
+  const groups: Watermark[][] = [];
+  for (const wm of layers) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].blendMode === wm.blendMode) last.push(wm);
+    else groups.push([wm]);
+  }
+  return groups;
+};
+
+export type PdfExportOptions = Omit<RenderOptions<PdfImage>, 'saliency' | 'backdrop'> & {
+  // As accepted by parsePageRanges(); empty for every page
+  pageRange: string;
+  // Checked between pages; once it returns true the export stops with ExportCancelledError
+  isCancelled?: () => boolean;
+};
+
+/** Stamps the layers on the selected pages and returns the saved document. */
+export const watermarkPdf = async (file: File, layers: Watermark[], options: PdfExportOptions) => {
+  const { pageRange, isCancelled, ...renderOptions } = options;
+  const data = new Uint8Array(await file.arrayBuffer());
+  // pdf.js takes ownership of the buffer it is given
+  const source = await getDocument({ data: data.slice() }).promise;
+  const output = await PDFDocument.load(data).catch(err => {
+    source.destroy();
+    throw err instanceof Error && err.name === 'EncryptedPDFError' ? new Error('PDF 已加密，无法添加水印') : err;
+  });
+  const selected = [...parsePageRanges(pageRange, output.getPageCount())].sort((a, b) => a - b);
+
+  try {
+    for (const index of selected) {
+      if (isCancelled?.()) throw new ExportCancelledError();
+      const backdrop = await renderPdfPage(source, index);
+      const backdropCtx = backdrop.getContext('2d')!;
+      const frame = { width: backdrop.width, height: backdrop.height };
+      const saliency = renderOptions.createLayer && layers.some(wm => wm.position === 'smart')
+        ? computeSaliency<PdfImage>(backdrop, renderOptions.createLayer)
+        : null;
+      // Smart layers are placed once for the whole page, before the layers are split up
+      const placed = resolveSmartPositions<PdfImage>(backdropCtx, frame, layers, { ...renderOptions, saliency }).layers;
+
+      const page = output.getPage(index);
+      const { x, y, width, height } = page.getCropBox();
+      const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+      // Where the upright overlay's bottom-left corner goes in unrotated page space
+      const origin = {
+        0: { x, y },
+        90: { x: x + width, y },
+        180: { x: x + width, y: y + height },
+        270: { x, y: y + height },
+      }[rotation] ?? { x, y };
+      const sideways = rotation === 90 || rotation === 270;
+
+      for (const group of groupByBlendMode(placed)) {
+        const overlay = document.createElement('canvas');
+        overlay.width = frame.width;
+        overlay.height = frame.height;
+        drawWatermarks<PdfImage>(overlay.getContext('2d')!, frame, group, { ...renderOptions, backdrop: backdropCtx });
+        const png = await output.embedPng(await (await canvasToBlob(overlay, 'image/png')).arrayBuffer());
+        page.drawImage(png, {
+          ...origin,
+          width: sideways ? height : width,
+          height: sideways ? width : height,
+          rotate: degrees(rotation),
+          blendMode: PDF_BLEND_MODES[group[0].blendMode],
+        });
+      }
+    }
+    return await output.save();
+  } finally {
+    source.destroy();
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LayerJitter } from './render';
+import type { Watermark } from './watermark';
+
+/**
+ * Personalized exports: one copy of each image per recipient, with {recipient} filled in and,
+ * optionally, every single layer nudged a little. The nudges are derived from the recipient's
+ * name, so re-exporting gives identical copies and a leaked copy can be matched by layout alone.
+ */
+
+export interface PersonalizeSettings {
+  // One recipient per line, or pasted CSV (first column)
+  recipients: string;
+  // Largest shift of a layer, % of the short edge; 0 disables it
+  maxOffset: number;
+  // Largest extra rotation in degrees; 0 disables it
+  maxRotation: number;
+}
+
+export interface Personalization {
+  recipient: string;
+  jitter: Record<string, LayerJitter>;
+}
+
+export interface ManifestEntry {
+  // Path inside the ZIP
+  file: string;
+  recipient: string;
+  source: string;
+  sha256: string;
+  bytes: number;
+  jitter: Record<string, LayerJitter>;
+}
+
+export const DEFAULT_PERSONALIZE_SETTINGS: PersonalizeSettings = {
+  recipients: '',
+  maxOffset: 1,
+  maxRotation: 2,
+};
+
+const STORAGE_KEY = 'qianxiang-watermark:personalize';
+
+export const loadPersonalizeSettings = (): PersonalizeSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PERSONALIZE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PERSONALIZE_SETTINGS;
+  } catch {
+    return DEFAULT_PERSONALIZE_SETTINGS;
+  }
+};
+
+export const savePersonalizeSettings = (settings: PersonalizeSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// A first CSV row with one of these in the first column is a header, not a recipient
+const HEADER_NAMES = ['recipient', 'name', 'client', '收件人', '姓名', '名称', '客户'];
+
+// First field of a CSV line, honouring quotes; plain lines come back trimmed
+const firstCsvField = (line: string) => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('"')) return trimmed.split(/[,\t;]/)[0].trim();
+  const match = trimmed.match(/^"((?:[^"]|"")*)"/);
+  return match ? match[1].replace(/""/g, '"').trim() : trimmed.slice(1).trim();
+};
+
+/** Recipients from pasted text or a CSV file: first column, blank lines and duplicates dropped. */
+export const parseRecipients = (text: string) => {
+  const names = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(firstCsvField);
+  if (names.length > 0 && HEADER_NAMES.includes(names[0].toLowerCase())) names.shift();
+  return [...new Set(names.filter(Boolean))];
+};
+
+// Mulberry32 seeded with the FNV-1a hash of the recipient
+const createRandom = (seed: string) => {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** The same recipient always gets the same nudges; tiled and hidden layers are left alone. */
+export const createPersonalization = (
+  recipient: string,
+  layers: Watermark[],
+  { maxOffset, maxRotation }: Pick<PersonalizeSettings, 'maxOffset' | 'maxRotation'>
+): Personalization => {
+  const jitter: Record<string, LayerJitter> = {};
+  if (maxOffset > 0 || maxRotation > 0) {
+    for (const wm of layers) {
+      if (wm.layout !== 'single' || wm.hidden) continue;
+      const random = createRandom(`${recipient}\u0000${wm.id}`);
+      const spread = (max: number) => round((random() * 2 - 1) * max);
+      jitter[wm.id] = { x: spread(maxOffset), y: spread(maxOffset), rotation: spread(maxRotation) };
+    }
+  }
+  return { recipient, jitter };
+};
+
+// Recipients become folder names inside the ZIP
+export const toFolderName = (recipient: string) =>
+  recipient.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').replace(/^\.+/, '_').slice(0, 80) || 'recipient';
+
+export const hashBytes = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** manifest.csv for spreadsheets; the per-layer nudges are only in the JSON. */
+export const manifestToCsv = (entries: ManifestEntry[]) =>
+  // BOM so spreadsheet apps read non-ASCII names as UTF-8
+  '\uFEFF' + [
+    ['file', 'recipient', 'source', 'sha256', 'bytes'],
+    ...entries.map(e => [e.file, e.recipient, e.source, e.sha256, e.bytes]),
+  ].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const manifestToJson = (entries: ManifestEntry[], createdAt: Date) =>
+  JSON.stringify({ createdAt: createdAt.toISOString(), algorithm: 'sha256', files: entries }, null, 2);
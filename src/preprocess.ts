@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Canvas2DLike, Frame, ImageLike, ScratchLayer } from './render';
+
+/**
+ * Base-image pre-processing: a quarter-turn rotation and flips to fix the orientation, then a
+ * crop, then a resize to the target size. Watermarks are laid out on the result, so the frame
+ * every other module sees is the processed one. Settings are relative to the image, so one
+ * layout crops a whole batch of differently sized photos alike.
+ */
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+export type CropAspect = 'original' | 'free' | '1:1' | '4:5' | '3:4' | '16:9' | '9:16';
+
+// Fractions (0–1) of the rotated and flipped image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Preprocess {
+  // Clockwise
+  rotation: QuarterTurn;
+  // Mirror the rotated image left-right / top-bottom
+  flipX: boolean;
+  flipY: boolean;
+  // 'original' keeps the whole image, 'free' uses crop as drawn, a ratio keeps crop's centre and area
+  aspect: CropAspect;
+  crop: CropRect;
+  // Output size in px, 0 follows the crop. With both set the crop is trimmed to fill that size exactly
+  width: number;
+  height: number;
+}
+
+export const CROP_ASPECTS: { aspect: CropAspect; label: string; ratio: number | null }[] = [
+  { aspect: 'original', label: '原图', ratio: null },
+  { aspect: 'free', label: '自由', ratio: null },
+  { aspect: '1:1', label: '1:1', ratio: 1 },
+  { aspect: '4:5', label: '4:5', ratio: 4 / 5 },
+  { aspect: '3:4', label: '3:4', ratio: 3 / 4 },
+  { aspect: '16:9', label: '16:9', ratio: 16 / 9 },
+  { aspect: '9:16', label: '9:16', ratio: 9 / 16 },
+];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_PREPROCESS: Preprocess = {
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  aspect: 'original',
+  crop: FULL_CROP,
+  width: 0,
+  height: 0,
+};
+
+// Largest output edge accepted from settings; canvases fail well before this in most browsers
+export const MAX_OUTPUT_EDGE = 16384;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toFraction = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? clamp(value, 0, 1) : fallback;
+
+const toEdge = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? clamp(Math.round(value), 0, MAX_OUTPUT_EDGE) : 0;
+
+/** Fills missing or invalid fields from the defaults, e.g. for settings read from a preset file. */
+export const normalizePreprocess = (raw: unknown): Preprocess => {
+  if (typeof raw !== 'object' || raw === null) return DEFAULT_PREPROCESS;
+  const value = raw as Record<string, unknown>;
+  const crop = typeof value.crop === 'object' && value.crop !== null ? value.crop as Record<string, unknown> : {};
+  const x = toFraction(crop.x, 0);
+  const y = toFraction(crop.y, 0);
+  return {
+    rotation: ([0, 90, 180, 270] as unknown[]).includes(value.rotation) ? value.rotation as QuarterTurn : 0,
+    flipX: value.flipX === true,
+    flipY: value.flipY === true,
+    aspect: CROP_ASPECTS.some(a => a.aspect === value.aspect) ? value.aspect as CropAspect : 'original',
+    crop: {
+      x,
+      y,
+      width: Math.max(0.01, Math.min(1 - x, toFraction(crop.width, 1))),
+      height: Math.max(0.01, Math.min(1 - y, toFraction(crop.height, 1))),
+    },
+    width: toEdge(value.width),
+    height: toEdge(value.height),
+  };
+};
+
+export const isIdentityPreprocess = (pre: Preprocess) =>
+  pre.rotation === 0 && !pre.flipX && !pre.flipY && pre.aspect === 'original' && pre.width === 0 && pre.height === 0;
+
+/** The same rotation and flips without crop or resize, as shown while the crop is being edited. */
+export const getOrientationOnly = (pre: Preprocess): Preprocess =>
+  ({ ...DEFAULT_PREPROCESS, rotation: pre.rotation, flipX: pre.flipX, flipY: pre.flipY });
+
+export const getOrientedFrame = (source: Frame, rotation: QuarterTurn): Frame =>
+  rotation % 180 === 0 ? { width: source.width, height: source.height } : { width: source.height, height: source.width };
+
+export const getCropRatio = (aspect: CropAspect) => CROP_ASPECTS.find(a => a.aspect === aspect)?.ratio ?? null;
+
+// Pixel rect in oriented px
+type PixelRect = CropRect;
+
+// Keeps the rect's centre and area at the new ratio, shrunk and shifted back inside the image if needed
+const fitRatio = (rect: PixelRect, ratio: number, bounds: Frame): PixelRect => {
+  let width = Math.sqrt(rect.width * rect.height * ratio);
+  let height = width / ratio;
+  const shrink = Math.min(1, bounds.width / width, bounds.height / height);
+  width *= shrink;
+  height *= shrink;
+  return {
+    x: clamp(rect.x + rect.width / 2 - width / 2, 0, bounds.width - width),
+    y: clamp(rect.y + rect.height / 2 - height / 2, 0, bounds.height - height),
+    width,
+    height,
+  };
+};
+
+// Trims the longer side around the centre so the rect has the given ratio
+const trimToRatio = (rect: PixelRect, ratio: number): PixelRect => {
+  const width = Math.min(rect.width, rect.height * ratio);
+  const height = width / ratio;
+  return { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height };
+};
+
+// Keeps the crop on the same part of the photo when the rotated image turns a further quarter
+export const turnCrop = (crop: CropRect, clockwise: boolean): CropRect => clockwise
+  ? { x: 1 - crop.y - crop.height, y: crop.x, width: crop.height, height: crop.width }
+  : { x: crop.y, y: 1 - crop.x - crop.width, width: crop.height, height: crop.width };
+
+export const flipCrop = (crop: CropRect, horizontal: boolean): CropRect => horizontal
+  ? { ...crop, x: 1 - crop.x - crop.width }
+  : { ...crop, y: 1 - crop.y - crop.height };
+
+/** The crop as drawn in the crop tool, in oriented px, before any trim to the output size. */
+export const getCropPixels = (source: Frame, pre: Preprocess) =>
+  resolvePreprocess(source, { ...pre, width: 0, height: 0 }).crop;
+
+export const toCropRect = (rect: PixelRect, oriented: Frame): CropRect => ({
+  x: rect.x / oriented.width,
+  y: rect.y / oriented.height,
+  width: rect.width / oriented.width,
+  height: rect.height / oriented.height,
+});
+
+export interface ResolvedPreprocess {
+  // Region of the oriented image that ends up in the output, in oriented px
+  crop: PixelRect;
+  // Size of the processed image, i.e. the frame watermarks are laid out on
+  frame: Frame;
+}
+
+/** Where the crop lands on a source of this size and how large the processed image is. */
+export const resolvePreprocess = (source: Frame, pre: Preprocess): ResolvedPreprocess => {
+  const oriented = getOrientedFrame(source, pre.rotation);
+  let crop: PixelRect = { x: 0, y: 0, width: oriented.width, height: oriented.height };
+  if (pre.aspect !== 'original') {
+    crop = {
+      x: pre.crop.x * oriented.width,
+      y: pre.crop.y * oriented.height,
+      width: Math.max(1, pre.crop.width * oriented.width),
+      height: Math.max(1, pre.crop.height * oriented.height),
+    };
+    const ratio = getCropRatio(pre.aspect);
+    if (ratio) crop = fitRatio(crop, ratio, oriented);
+  }
+
+  if (pre.width > 0 && pre.height > 0) {
+    return { crop: trimToRatio(crop, pre.width / pre.height), frame: { width: pre.width, height: pre.height } };
+  }
+  let scale = pre.width > 0 ? pre.width / crop.width : pre.height > 0 ? pre.height / crop.height : 1;
+  // The edge that follows the crop's ratio is held to the same limit as the one set; a narrow strip
+  // shrinks as a whole rather than growing a 16384 px edge its ratio times longer
+  if (pre.width > 0 || pre.height > 0) scale = Math.min(scale, MAX_OUTPUT_EDGE / Math.max(crop.width, crop.height));
+  return {
+    crop,
+    frame: {
+      width: Math.max(1, Math.round(crop.width * scale)),
+      height: Math.max(1, Math.round(crop.height * scale)),
+    },
+  };
+};
+
+/**
+ * Draws the processed source into the frame of resolvePreprocess(), under the current
+ * transform. The caller sizes the target (or scales the context) to that frame.
+ */
+export const drawPreprocessed = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  source: TImage,
+  pre: Preprocess,
+  { crop, frame }: ResolvedPreprocess = resolvePreprocess(source, pre)
+) => {
+  const oriented = getOrientedFrame(source, pre.rotation);
+  ctx.save();
+  ctx.scale(frame.width / crop.width, frame.height / crop.height);
+  ctx.translate(-crop.x, -crop.y);
+  // Rotate about the centre, then mirror what the rotation produced
+  ctx.translate(oriented.width / 2, oriented.height / 2);
+  ctx.scale(pre.flipX ? -1 : 1, pre.flipY ? -1 : 1);
+  ctx.rotate((pre.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2, source.width, source.height);
+  ctx.restore();
+};
+
+/** The processed image at full resolution, or the source itself when nothing changes it. */
+export const preprocessImage = <TImage extends ImageLike>(
+  source: TImage,
+  pre: Preprocess,
+  createLayer: (width: number, height: number) => ScratchLayer<TImage>
+): TImage => {
+  if (isIdentityPreprocess(pre)) return source;
+  const resolved = resolvePreprocess(source, pre);
+  const layer = createLayer(resolved.frame.width, resolved.frame.height);
+  layer.imageSmoothingQuality = 'high';
+  drawPreprocessed(layer, source, pre, resolved);
+  return layer.canvas;
+};
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { normalizePreprocess, type Preprocess } from './preprocess';
+import {
+  ANCHOR_POSITIONS,
+  BASE_DEFAULTS,
+  BLEND_MODES,
+  DEFAULT_TILE_GAPS,
+  IMAGE_DEFAULTS,
+  TEXT_DEFAULTS,
+  createId,
+  type Watermark,
+} from './watermark';
+
+/**
+ * Preset files are plain JSON so a team can share one file and produce identical marks:
+ *
+ *   {
+ *     "format": "qianxiang-watermark-preset",
+ *     "version": 10,
+ *     "presets": [
+ *       { "id": "k3j9x0a1b", "name": "品牌角标", "updatedAt": "2026-01-01T00:00:00.000Z", "watermarks": [...] }
+ *     ]
+ *   }
+ *
+ * `watermarks` holds the full layer list in draw order, exactly as the editor keeps it.
+ * `preprocess` (optional) is the crop, orientation and resize applied to the photo first.
+ * Missing layer fields are filled from the editor defaults on import, unknown ones dropped,
+ * numbers clamped to what the editor can set and fields of the wrong type rejected.
+ *
+ * Version history:
+ *   1 — text-only layers without a `type` field or tiling options
+ *   2 — text and image layers (`type: 'text' | 'image'`) with single/tiled layout
+ *   3 — text styling: font family/upload, weight, italic, spacing, multiline, stroke, shadow, background box
+ *   4 — relative sizing (`sizeMode`, `relativeSize`) and explicit margins; older layers keep
+ *       absolute sizes and the margins they used to get implicitly
+ *   5 — automatic text colour (`colorMode`, `autoColorStyle`, `contrastTarget`, `autoOutline`)
+ *   6 — blend modes and effects (`blendMode`, `effect`)
+ *   7 — content-aware placement (`position: 'smart'`)
+ *   8 — layer management fields (`label`, `hidden`, `locked`)
+ *   9 — base-image pre-processing (`preprocess`) stored with the layers
+ *  10 — tile gaps relative to the tile size (`tileGapUnit`); older layers keep their px gaps
+ */
+export const PRESET_FORMAT = 'qianxiang-watermark-preset';
+export const PRESET_VERSION = 10;
+
+export interface Preset {
+  id: string;
+  name: string;
+  updatedAt: string;
+  watermarks: Watermark[];
+  // Missing in presets saved before version 9, which leave the photo as it is
+  preprocess?: Preprocess;
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  presets: Preset[];
+}
+
+const STORAGE_KEY = 'qianxiang-watermark:presets';
+const DEFAULT_PRESET_KEY = 'qianxiang-watermark:default-preset';
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 1 layers were always text and had no layout options
+const migrateV1Watermark = (raw: RawRecord): RawRecord => ({ ...raw, type: 'text' });
+
+// Before version 4 sizes were absolute, text sat fontSize px from the edges and logos 3% of the short edge
+const migrateV3Watermark = (raw: RawRecord): RawRecord => {
+  const margin = raw.type === 'image'
+    ? { marginX: 3, marginY: 3, marginUnit: '%' }
+    : { marginX: raw.fontSize ?? TEXT_DEFAULTS.fontSize, marginY: raw.fontSize ?? TEXT_DEFAULTS.fontSize, marginUnit: 'px' };
+  return { ...raw, sizeMode: 'px', ...margin };
+};
+
+// Before version 10 tile gaps were px, 120 × 80 unless set
+const migrateV9Watermark = (raw: RawRecord): RawRecord => ({ ...DEFAULT_TILE_GAPS.px, ...raw, tileGapUnit: 'px' });
+
+// Ranges of the editor's controls. Text lengths, margins and tile gaps get more room: switching
+// them between relative units and px on a large photo scales them past their sliders
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  opacity: [0, 1],
+  customX: [0, 100],
+  customY: [0, 100],
+  rotation: [-180, 180],
+  relativeSize: [0.5, 100],
+  marginX: [0, 5000],
+  marginY: [0, 5000],
+  tileGapX: [0, 5000],
+  tileGapY: [0, 5000],
+  tileOffset: [0, 1],
+  scale: [0.01, 3],
+  fontSize: [1, 2000],
+  contrastTarget: [1.5, 12],
+  fontWeight: [100, 900],
+  letterSpacing: [-100, 500],
+  lineHeight: [0.8, 3],
+  strokeWidth: [0, 200],
+  shadowBlur: [0, 500],
+  shadowOffsetX: [-300, 300],
+  shadowOffsetY: [-300, 300],
+  backgroundOpacity: [0, 1],
+  backgroundPadding: [0, 1000],
+  backgroundRadius: [0, 1000],
+};
+
+const ENUM_VALUES: Record<string, unknown[]> = {
+  position: [...ANCHOR_POSITIONS, 'smart', 'custom'],
+  sizeMode: ['px', 'width', 'short-edge'],
+  marginUnit: ['%', 'px'],
+  tileGapUnit: ['%', 'px'],
+  blendMode: BLEND_MODES.map(({ mode }) => mode),
+  effect: ['none', 'emboss', 'engrave', 'frosted'],
+  layout: ['single', 'tiled'],
+  colorMode: ['fixed', 'auto'],
+  autoColorStyle: ['mono', 'tint'],
+  textAlign: ['left', 'center', 'right'],
+};
+
+// Takes the fields the defaults know, typed like the defaults; throws on anything else
+const readFields = (raw: RawRecord, defaults: RawRecord) => {
+  const fields: RawRecord = { ...defaults };
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = raw[key];
+    // NaN is saved as null, so a null number falls back like a missing one
+    if (value === undefined || (value === null && typeof fallback === 'number')) continue;
+    const valid = typeof value === typeof fallback
+      && (typeof value !== 'number' || Number.isFinite(value))
+      && (!ENUM_VALUES[key] || ENUM_VALUES[key].includes(value));
+    if (!valid) throw new Error(`水印字段 ${key} 的值无效`);
+    const range = NUMBER_RANGES[key];
+    fields[key] = range ? Math.min(range[1], Math.max(range[0], value as number)) : value;
+  }
+  return fields;
+};
+
+export const normalizeWatermark = (raw: RawRecord): Watermark => {
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : createId();
+  if (raw.type === 'image') {
+    return { ...readFields(raw, { ...BASE_DEFAULTS, ...IMAGE_DEFAULTS }), id, type: 'image' } as Watermark;
+  }
+  return { ...readFields(raw, { ...BASE_DEFAULTS, ...TEXT_DEFAULTS }), id, type: 'text' } as Watermark;
+};
+
+const migrateWatermarks = (raw: unknown, version: number): Watermark[] => {
+  if (!Array.isArray(raw)) throw new Error('预设缺少水印列表');
+  return raw.filter(isRecord).map(layer => {
+    const v2 = version < 2 ? migrateV1Watermark(layer) : layer;
+    const v4 = version < 4 ? migrateV3Watermark(v2) : v2;
+    return normalizeWatermark(version < 10 ? migrateV9Watermark(v4) : v4);
+  });
+};
+
+/** Validates one preset object of the given file version and migrates it to the current layout. */
+export const migratePreset = (raw: unknown, version: number): Preset => {
+  if (!isRecord(raw)) throw new Error('预设格式不正确');
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createId(),
+    name: typeof raw.name === 'string' && raw.name ? raw.name : '未命名预设',
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+    watermarks: migrateWatermarks(raw.watermarks, version),
+    ...(raw.preprocess !== undefined && { preprocess: normalizePreprocess(raw.preprocess) }),
+  };
+};
+
+/** Parses an exported preset file, migrating older versions to the current layout. */
+export const parsePresetFile = (json: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('预设文件不是有效的 JSON');
+  }
+
+  // A bare layer array is how layouts were copied around before the file format existed
+  if (Array.isArray(data)) {
+    return [migratePreset({ name: '导入的预设', watermarks: data }, 1)];
+  }
+
+  if (!isRecord(data) || data.format !== PRESET_FORMAT) {
+    throw new Error('不是浅香水印的预设文件');
+  }
+  const version = typeof data.version === 'number' ? data.version : 1;
+  if (version > PRESET_VERSION) {
+    throw new Error(`预设文件版本 ${version} 过新，请升级应用`);
+  }
+  if (!Array.isArray(data.presets)) throw new Error('预设文件缺少预设列表');
+
+  return data.presets.map(preset => migratePreset(preset, version));
+};
+
+export const serializePresets = (presets: Preset[]) => {
+  const file: PresetFile = { format: PRESET_FORMAT, version: PRESET_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+// localStorage holds the same file format, so stored presets go through the same migrations
+export const loadStoredPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresetFile(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveStoredPresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+};
+
+export const loadDefaultPresetId = () => localStorage.getItem(DEFAULT_PRESET_KEY);
+
+export const saveDefaultPresetId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(DEFAULT_PRESET_KEY, id);
+  } else {
+    localStorage.removeItem(DEFAULT_PRESET_KEY);
+  }
+};
+
+/** The preset marked as default, or null when there is none. */
+export const loadStartupPreset = () => {
+  const defaultId = loadDefaultPresetId();
+  if (!defaultId) return null;
+  return loadStoredPresets().find(preset => preset.id === defaultId) ?? null;
+};
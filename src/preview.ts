@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_PREPROCESS, drawPreprocessed, isIdentityPreprocess, resolvePreprocess, type Preprocess } from './preprocess';
+import type { Frame } from './render';
+
+// Longest edge of the preview bitmap. The canvas is shown at most ~70vh tall,
+// so this stays sharp on high-DPI screens while redraws touch a few megapixels at most.
+export const PREVIEW_MAX_EDGE = 2048;
+
+export interface PreviewImage extends Frame {
+  // Downscaled copy of the upright, pre-processed source, or the source itself when it is small
+  // enough and unprocessed. width/height are the processed full size: layout always happens in those px.
+  proxy: HTMLImageElement | HTMLCanvasElement;
+}
+
+export const getPreviewSize = (width: number, height: number, maxEdge = PREVIEW_MAX_EDGE) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Zooming in past the preview's resolution asks for maxEdge = Infinity, the processed image at full size.
+// Pre-processing is drawn straight at the preview size, so a crop drag never touches the full-size pixels.
+export const createPreviewImage = (
+  img: HTMLImageElement,
+  maxEdge = PREVIEW_MAX_EDGE,
+  preprocess: Preprocess = DEFAULT_PREPROCESS
+): PreviewImage => {
+  const resolved = resolvePreprocess(img, preprocess);
+  const { frame } = resolved;
+  const { width, height } = getPreviewSize(frame.width, frame.height, maxEdge);
+  if (isIdentityPreprocess(preprocess) && width === img.width && height === img.height) return { proxy: img, width, height };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { proxy: img, width: img.width, height: img.height };
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(width / frame.width, height / frame.height);
+  drawPreprocessed<HTMLImageElement | HTMLCanvasElement>(ctx, img, preprocess, resolved);
+  return { proxy: canvas, ...frame };
+};
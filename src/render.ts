@@ -0,0 +1,776 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { pickAutoColor, sampleBackground } from './autoColor';
+import { computeSaliency, scoreRegion, type SaliencyMap } from './saliency';
+import { resolveText, type TextContext } from './textVariables';
+import {
+  ANCHOR_POSITIONS,
+  scaleTextLengths,
+  type AnchorPosition,
+  type BaseWatermark,
+  type BlendMode,
+  type ImageWatermark,
+  type MarginUnit,
+  type SizeMode,
+  type TextWatermark,
+  type Watermark,
+} from './watermark';
+
+/**
+ * Rendering engine shared by the editor, exports and the Node CLI. It only relies on
+ * the subset of the 2D canvas API below, so a browser CanvasRenderingContext2D and
+ * a @napi-rs/canvas context produce the same layout from the same Watermark[].
+ */
+export interface ImageLike {
+  width: number;
+  height: number;
+  naturalWidth?: number;
+  naturalHeight?: number;
+}
+
+export interface Canvas2DLike<TImage extends ImageLike = ImageLike> {
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineJoin: CanvasLineJoin;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  font: string;
+  letterSpacing: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  imageSmoothingQuality: ImageSmoothingQuality;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  getTransform(): { a: number; b: number; c: number; d: number; e: number; f: number };
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  clearRect(x: number, y: number, w: number, h: number): void;
+  fillRect(x: number, y: number, w: number, h: number): void;
+  beginPath(): void;
+  roundRect(x: number, y: number, w: number, h: number, radii?: number): void;
+  fill(): void;
+  measureText(text: string): { width: number };
+  fillText(text: string, x: number, y: number): void;
+  strokeText(text: string, x: number, y: number): void;
+  getImageData(sx: number, sy: number, sw: number, sh: number): { data: Uint8ClampedArray };
+  drawImage(image: TImage, dx: number, dy: number): void;
+  drawImage(image: TImage, dx: number, dy: number, dw: number, dh: number): void;
+}
+
+export interface Frame {
+  width: number;
+  height: number;
+}
+
+// Where a single (non-tiled) layer lands: centre in frame px, unrotated size, rotation in degrees
+export interface WatermarkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+// A blank offscreen canvas and its context
+export type ScratchLayer<TImage extends ImageLike> = Canvas2DLike<TImage> & { canvas: TImage };
+
+export interface RenderOptions<TImage extends ImageLike> {
+  // Returns the decoded logo for an image layer, or null while it is still loading
+  getLogo: (src: string) => TImage | null;
+  metadata: TextContext['metadata'];
+  // Needed by emboss/engrave, which cut the layer's own shape out of its relief; without it they draw plain
+  createLayer?: (width: number, height: number) => ScratchLayer<TImage>;
+  // Busyness map of the source for 'smart' layers; without one they sit in the bottom-right corner
+  saliency?: SaliencyMap | null;
+  // Drawing onto a transparent layer over other content (PDF pages): the pixels underneath,
+  // at the target's size, so auto colour samples those instead of the empty target
+  backdrop?: Canvas2DLike<TImage>;
+  // Personalized exports: fills {recipient} and nudges single layers by layer id
+  recipient?: string;
+  jitter?: Record<string, LayerJitter>;
+}
+
+export interface LayerJitter {
+  // Shift of the layer centre as % of the short edge
+  x: number;
+  y: number;
+  // Degrees added to the layer's rotation
+  rotation: number;
+}
+
+type ScratchPool = (index: number, width: number, height: number) => ScratchLayer<ImageLike>;
+
+// Scratch canvases are reused across layers and tiles within one render, growing when needed
+const createScratchPool = <TImage extends ImageLike>(factory: RenderOptions<TImage>['createLayer']): ScratchPool | null => {
+  if (!factory) return null;
+  const layers: ScratchLayer<TImage>[] = [];
+  return (index, width, height) => {
+    let layer = layers[index];
+    if (!layer || layer.canvas.width < width || layer.canvas.height < height) {
+      layer = factory(Math.max(width, layer?.canvas.width ?? 0), Math.max(height, layer?.canvas.height ?? 0));
+      layers[index] = layer;
+    }
+    layer.setTransform(1, 0, 0, 1, 0, 0);
+    layer.globalAlpha = 1;
+    layer.globalCompositeOperation = 'source-over';
+    layer.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+    return layer;
+  };
+};
+
+// SVGs without an intrinsic size report 0×0, so fall back to a sane box
+export const getLogoSize = (img: ImageLike) => ({
+  width: img.naturalWidth || img.width || 300,
+  height: img.naturalHeight || img.height || 300,
+});
+
+// Repeats paint() across the whole frame on a grid rotated about the frame centre.
+// The grid spans the frame diagonal so rotated layouts leave no empty corners.
+const drawTiles = (
+  ctx: Canvas2DLike,
+  frame: Frame,
+  wm: BaseWatermark,
+  itemWidth: number,
+  itemHeight: number,
+  paint: () => void
+) => {
+  const relative = wm.tileGapUnit === '%';
+  const stepX = Math.max(1, itemWidth + (relative ? (itemWidth * wm.tileGapX) / 100 : wm.tileGapX));
+  const stepY = Math.max(1, itemHeight + (relative ? (itemHeight * wm.tileGapY) / 100 : wm.tileGapY));
+  const radius = Math.hypot(frame.width, frame.height) / 2;
+  const rows = Math.ceil(radius / stepY) + 1;
+  const cols = Math.ceil(radius / stepX) + 2;
+
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.rotate((wm.rotation * Math.PI) / 180);
+
+  for (let row = -rows; row <= rows; row++) {
+    const offset = Math.abs(row % 2) * wm.tileOffset * stepX;
+    for (let col = -cols; col <= cols; col++) {
+      ctx.save();
+      ctx.translate(col * stepX + offset, row * stepY);
+      paint();
+      ctx.restore();
+    }
+  }
+};
+
+// Font shorthand for a text layer; the quoted family falls back to the platform sans-serif
+export const getFontString = (wm: TextWatermark) =>
+  `${wm.italic ? 'italic ' : ''}${wm.fontWeight} ${wm.fontSize}px "${wm.fontFamily.replace(/"/g, '')}", sans-serif`;
+
+interface TextBlock {
+  lines: { text: string; width: number }[];
+  lineHeight: number;
+  // Text extent, without the background padding
+  width: number;
+  height: number;
+}
+
+// Canvas letter spacing also follows the last character, so it is left out of the visible width
+const measureTextBlock = (ctx: Canvas2DLike, wm: TextWatermark, text: string): TextBlock => {
+  const lineHeight = wm.fontSize * wm.lineHeight;
+  const lines = text.split('\n').map(line => ({
+    text: line,
+    width: line ? Math.max(0, ctx.measureText(line).width - wm.letterSpacing) : 0,
+  }));
+  return {
+    lines,
+    lineHeight,
+    width: Math.max(...lines.map(line => line.width)),
+    height: lines.length * lineHeight,
+  };
+};
+
+// Paints the block centred on the origin: background box, then outline, then fill
+const paintTextBlock = (ctx: Canvas2DLike, wm: TextWatermark, block: TextBlock) => {
+  const left = -block.width / 2;
+  const top = -block.height / 2;
+
+  if (wm.background) {
+    const pad = wm.backgroundPadding;
+    ctx.save();
+    ctx.globalAlpha *= wm.backgroundOpacity;
+    ctx.fillStyle = wm.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect(left - pad, top - pad, block.width + pad * 2, block.height + pad * 2, wm.backgroundRadius);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  const lineStart = (width: number) => {
+    if (wm.textAlign === 'left') return left;
+    if (wm.textAlign === 'right') return left + block.width - width;
+    return -width / 2;
+  };
+
+  const paintLines = (paint: (text: string, x: number, y: number) => void) => {
+    block.lines.forEach((line, i) => {
+      if (line.text) paint(line.text, lineStart(line.width), top + block.lineHeight * (i + 0.5));
+    });
+  };
+
+  // The shadow belongs to whichever pass is drawn first, so stroke and fill don't each cast one.
+  // Shadows ignore the transform, so their lengths are scaled to canvas px here.
+  if (wm.shadow) {
+    const { a, b } = ctx.getTransform();
+    const unit = Math.hypot(a, b);
+    ctx.shadowColor = wm.shadowColor;
+    ctx.shadowBlur = wm.shadowBlur * unit;
+    ctx.shadowOffsetX = wm.shadowOffsetX * unit;
+    ctx.shadowOffsetY = wm.shadowOffsetY * unit;
+  }
+  if (wm.strokeWidth > 0) {
+    ctx.strokeStyle = wm.strokeColor;
+    // Half of the stroke is hidden under the fill
+    ctx.lineWidth = wm.strokeWidth * 2;
+    ctx.lineJoin = 'round';
+    paintLines((text, x, y) => ctx.strokeText(text, x, y));
+    ctx.shadowColor = 'transparent';
+  }
+  paintLines((text, x, y) => ctx.fillText(text, x, y));
+};
+
+// Sets the font state measureText() depends on; callers save()/restore() around it
+const applyTextStyle = (ctx: Canvas2DLike, wm: TextWatermark) => {
+  ctx.font = getFontString(wm);
+  ctx.letterSpacing = `${wm.letterSpacing}px`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+};
+
+const layoutText = (ctx: Canvas2DLike, wm: TextWatermark, context: TextContext) => {
+  const block = measureTextBlock(ctx, wm, resolveText(wm.text, context));
+  const boxPadding = wm.background ? wm.backgroundPadding : 0;
+  return { block, width: block.width + boxPadding * 2, height: block.height + boxPadding * 2 };
+};
+
+const getShortEdge = (frame: Frame) => Math.min(frame.width, frame.height);
+
+const getReferenceLength = (frame: Frame, mode: SizeMode) => mode === 'width' ? frame.width : getShortEdge(frame);
+
+// Text is laid out at fontSize and scaled as a whole, so outline, shadow and spacing keep their proportions
+export const getTextScale = (frame: Frame, wm: TextWatermark) =>
+  wm.sizeMode === 'px' ? 1 : ((wm.relativeSize / 100) * getReferenceLength(frame, wm.sizeMode)) / wm.fontSize;
+
+export const getLogoDrawSize = (frame: Frame, wm: ImageWatermark, logo: ImageLike) => {
+  const { width, height } = getLogoSize(logo);
+  if (wm.sizeMode === 'px') return { width: width * wm.scale, height: height * wm.scale };
+  const drawWidth = (wm.relativeSize / 100) * getReferenceLength(frame, wm.sizeMode);
+  return { width: drawWidth, height: (drawWidth * height) / width };
+};
+
+/**
+ * Size fields that keep the layer looking the same on this frame under another size mode.
+ * Text switching to px folds the relative scale into fontSize and the other lengths.
+ */
+export const convertSizeMode = (frame: Frame, wm: Watermark, mode: SizeMode, logo: ImageLike | null): Partial<Watermark> => {
+  if (wm.type === 'text') {
+    const scale = getTextScale(frame, wm);
+    if (mode === 'px') return { ...scaleTextLengths(wm, scale), sizeMode: mode };
+    return { sizeMode: mode, relativeSize: ((wm.fontSize * scale) / getReferenceLength(frame, mode)) * 100 };
+  }
+
+  if (!logo) return { sizeMode: mode };
+  const { width } = getLogoDrawSize(frame, wm, logo);
+  if (mode === 'px') return { sizeMode: mode, scale: width / getLogoSize(logo).width };
+  return { sizeMode: mode, relativeSize: (width / getReferenceLength(frame, mode)) * 100 };
+};
+
+const getMargins = (frame: Frame, wm: BaseWatermark) => {
+  const unit = wm.marginUnit === '%' ? getShortEdge(frame) / 100 : 1;
+  return { x: wm.marginX * unit, y: wm.marginY * unit };
+};
+
+// Whole pixels and tenths of a percent, so converted values still read well next to the sliders
+const roundToUnit = (value: number, unit: MarginUnit) =>
+  unit === 'px' ? Math.round(value) : Math.round(value * 10) / 10;
+
+// Margins in the other unit that keep the layer where it sits on this frame
+export const convertMarginUnit = (frame: Frame, wm: BaseWatermark, unit: MarginUnit): Partial<BaseWatermark> => {
+  const { x, y } = getMargins(frame, wm);
+  const perUnit = unit === '%' ? getShortEdge(frame) / 100 : 1;
+  return { marginUnit: unit, marginX: roundToUnit(x / perUnit, unit), marginY: roundToUnit(y / perUnit, unit) };
+};
+
+// Centre of an item of the given size, placed so its rotated bounds sit exactly inside the margins
+const placeItem = (frame: Frame, wm: BaseWatermark, width: number, height: number): WatermarkBox => {
+  const box = { x: frame.width / 2, y: frame.height / 2, width, height, rotation: wm.rotation };
+  if (wm.position === 'custom') {
+    return { ...box, x: (wm.customX / 100) * frame.width, y: (wm.customY / 100) * frame.height };
+  }
+
+  const angle = (wm.rotation * Math.PI) / 180;
+  const halfX = (Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle))) / 2;
+  const halfY = (Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle))) / 2;
+  const margin = getMargins(frame, wm);
+  if (wm.position.endsWith('left')) box.x = margin.x + halfX;
+  if (wm.position.endsWith('right')) box.x = frame.width - margin.x - halfX;
+  if (wm.position.startsWith('top')) box.y = margin.y + halfY;
+  if (wm.position.startsWith('bottom')) box.y = frame.height - margin.y - halfY;
+  return box;
+};
+
+const toCompositeOperation = (mode: BlendMode): GlobalCompositeOperation => mode === 'normal' ? 'source-over' : mode;
+
+// Far enough that the silhouette source is always off the canvas
+const SILHOUETTE_SHIFT = 100000;
+
+// Paints only the shadow of paint(): a solid silhouette in `color`, offset by dx/dy canvas px.
+// The shape is drawn SILHOUETTE_SHIFT px off to the left and its shadow thrown back into place;
+// shadow offsets ignore the transform, so the shift is mapped into the current user space.
+const paintSilhouette = (ctx: Canvas2DLike, color: string, dx: number, dy: number, blur: number, paint: () => void) => {
+  const { a, b, c, d } = ctx.getTransform();
+  const det = a * d - b * c;
+  if (!det) return;
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = SILHOUETTE_SHIFT + dx;
+  ctx.shadowOffsetY = dy;
+  ctx.translate((-SILHOUETTE_SHIFT * d) / det, (SILHOUETTE_SHIFT * b) / det);
+  paint();
+  ctx.restore();
+};
+
+// Canvas-pixel bounds of the current user-space rectangle centred on the origin
+const getDeviceBounds = (ctx: Canvas2DLike, width: number, height: number, padding: number) => {
+  const { a, b, c, d, e, f } = ctx.getTransform();
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [x, y] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+    xs.push(a * x * width / 2 + c * y * height / 2 + e);
+    ys.push(b * x * width / 2 + d * y * height / 2 + f);
+  }
+  const x0 = Math.floor(Math.min(...xs) - padding);
+  const y0 = Math.floor(Math.min(...ys) - padding);
+  return {
+    x: x0,
+    y: y0,
+    width: Math.ceil(Math.max(...xs) + padding) - x0,
+    height: Math.ceil(Math.max(...ys) + padding) - y0,
+  };
+};
+
+// Light and dark rims around the shape, with the shape itself left clear so the photo shows through
+const paintRelief = (
+  ctx: Canvas2DLike,
+  scratch: ScratchPool,
+  wm: BaseWatermark,
+  width: number,
+  height: number,
+  offset: number,
+  paintShape: (target: Canvas2DLike) => void
+) => {
+  const bounds = getDeviceBounds(ctx, width, height, offset + 2);
+  const { a, b, c, d, e, f } = ctx.getTransform();
+  const shape = scratch(0, bounds.width, bounds.height);
+  shape.setTransform(a, b, c, d, e - bounds.x, f - bounds.y);
+  paintShape(shape);
+
+  const rim = scratch(1, bounds.width, bounds.height);
+  const [topLeft, bottomRight] = wm.effect === 'emboss' ? ['#ffffff', '#000000'] : ['#000000', '#ffffff'];
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  for (const [color, shift] of [[topLeft, -offset], [bottomRight, offset]] as const) {
+    rim.globalCompositeOperation = 'source-over';
+    rim.clearRect(0, 0, bounds.width, bounds.height);
+    rim.drawImage(shape.canvas, shift, shift);
+    rim.globalCompositeOperation = 'source-in';
+    rim.fillStyle = color;
+    rim.fillRect(0, 0, bounds.width, bounds.height);
+    rim.globalCompositeOperation = 'destination-out';
+    rim.drawImage(shape.canvas, 0, 0);
+    ctx.drawImage(rim.canvas, bounds.x, bounds.y);
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws one copy of a layer, centred on the origin, with its effect. `paintBody` draws the
+ * layer as usual on ctx; `paintShape` draws its plain shape (no shadow) on any context.
+ * Offsets scale with the item's short side and the light always comes from the top left
+ * of the photo, whatever the layer rotation.
+ */
+const paintWithEffect = (
+  ctx: Canvas2DLike,
+  scratch: ScratchPool | null,
+  wm: BaseWatermark,
+  width: number,
+  height: number,
+  paintBody: () => void,
+  paintShape: (target: Canvas2DLike) => void
+) => {
+  const { a, b } = ctx.getTransform();
+  // Canvas px per user-space unit, for offsets that look the same at any layer scale
+  const unit = Math.hypot(a, b);
+  const offset = Math.max(1, Math.round(Math.min(width, height) * unit * 0.04));
+  const alpha = ctx.globalAlpha;
+
+  switch (wm.effect) {
+    case 'emboss':
+    case 'engrave':
+      if (!scratch) {
+        paintBody();
+        break;
+      }
+      paintRelief(ctx, scratch, wm, width, height, offset, paintShape);
+      // A faint body keeps the layer's colour without hiding the photo inside the relief
+      ctx.globalAlpha = alpha * 0.25;
+      paintBody();
+      ctx.globalAlpha = alpha;
+      break;
+    case 'frosted':
+      ctx.globalAlpha = alpha * 0.6;
+      paintSilhouette(ctx, '#ffffff', 0, 0, offset * 3, () => paintShape(ctx));
+      ctx.globalAlpha = alpha * 0.35;
+      paintSilhouette(ctx, '#ffffff', 0, 0, 0, () => paintShape(ctx));
+      ctx.globalAlpha = alpha;
+      break;
+    default:
+      paintBody();
+  }
+};
+
+// Axis-aligned bounds of a rotated box
+export const getBoxBounds = (box: WatermarkBox) => {
+  const angle = (box.rotation * Math.PI) / 180;
+  const width = Math.abs(box.width * Math.cos(angle)) + Math.abs(box.height * Math.sin(angle));
+  const height = Math.abs(box.width * Math.sin(angle)) + Math.abs(box.height * Math.cos(angle));
+  return { x: box.x - width / 2, y: box.y - height / 2, width, height };
+};
+
+// Replaces an auto-coloured layer's fill (and outline) with one picked for the pixels it covers.
+// The context may only be scaled here (the preview), which maps frame coordinates to canvas pixels.
+const resolveAutoColor = (
+  ctx: Canvas2DLike,
+  backdrop: Canvas2DLike,
+  frame: Frame,
+  wm: TextWatermark,
+  box: WatermarkBox | null
+): TextWatermark => {
+  if (wm.colorMode !== 'auto') return wm;
+  const { a: sx, d: sy } = ctx.getTransform();
+  const region = box ? getBoxBounds(box) : { x: 0, y: 0, width: frame.width, height: frame.height };
+  const background = sampleBackground(
+    backdrop,
+    { width: frame.width * sx, height: frame.height * sy },
+    { x: region.x * sx, y: region.y * sy, width: region.width * sx, height: region.height * sy }
+  );
+  if (!background) return wm;
+
+  const { color, outline } = pickAutoColor(background, {
+    style: wm.autoColorStyle,
+    target: wm.contrastTarget,
+    opacity: wm.opacity,
+    outline: wm.autoOutline,
+  });
+  if (!outline) return { ...wm, color };
+  // Outline width is in layout px like the other text lengths
+  return { ...wm, color, strokeColor: outline, strokeWidth: Math.max(wm.strokeWidth, wm.fontSize * 0.05) };
+};
+
+const drawTextWatermark = (
+  ctx: Canvas2DLike,
+  frame: Frame,
+  layer: TextWatermark,
+  context: TextContext,
+  scratch: ScratchPool | null,
+  backdrop: Canvas2DLike
+) => {
+  ctx.save();
+  applyTextStyle(ctx, layer);
+  const { block, width, height } = layoutText(ctx, layer, context);
+  const scale = getTextScale(frame, layer);
+  const box = layer.layout === 'tiled' ? null : placeItem(frame, layer, width * scale, height * scale);
+  const wm = resolveAutoColor(ctx, backdrop, frame, layer, box);
+
+  ctx.fillStyle = wm.color;
+  ctx.globalAlpha = wm.opacity;
+  ctx.globalCompositeOperation = toCompositeOperation(wm.blendMode);
+  const shape = { ...wm, shadow: false };
+  const paintShape = (target: Canvas2DLike) => {
+    applyTextStyle(target, wm);
+    target.fillStyle = wm.color;
+    paintTextBlock(target, shape, block);
+  };
+  const paint = () => {
+    ctx.scale(scale, scale);
+    paintWithEffect(ctx, scratch, wm, width, height, () => paintTextBlock(ctx, wm, block), paintShape);
+  };
+
+  if (!box) {
+    drawTiles(ctx, frame, wm, width * scale, height * scale, paint);
+    ctx.restore();
+    return;
+  }
+
+  ctx.translate(box.x, box.y);
+  ctx.rotate((wm.rotation * Math.PI) / 180);
+  paint();
+  ctx.restore();
+};
+
+const drawImageWatermark = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  wm: ImageWatermark,
+  logo: TImage,
+  scratch: ScratchPool | null
+) => {
+  const { width, height } = getLogoDrawSize(frame, wm, logo);
+  const drawLogo = (target: Canvas2DLike<TImage>) => target.drawImage(logo, -width / 2, -height / 2, width, height);
+  const paint = () => paintWithEffect(ctx, scratch, wm, width, height, () => drawLogo(ctx), drawLogo);
+
+  ctx.save();
+  ctx.globalAlpha = wm.opacity;
+  ctx.globalCompositeOperation = toCompositeOperation(wm.blendMode);
+  if (wm.layout === 'tiled') {
+    drawTiles(ctx, frame, wm, width, height, paint);
+    ctx.restore();
+    return;
+  }
+
+  const box = placeItem(frame, wm, width, height);
+  ctx.translate(box.x, box.y);
+  ctx.rotate((wm.rotation * Math.PI) / 180);
+  paint();
+  ctx.restore();
+};
+
+/**
+ * The box a single layer is drawn into, for hit-testing and selection handles.
+ * Null for tiled layers and for logos that have not loaded yet.
+ */
+export const getWatermarkBox = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  wm: Watermark,
+  options: RenderOptions<TImage>
+): WatermarkBox | null => {
+  if (wm.layout === 'tiled') return null;
+  const size = getItemSize(ctx, frame, wm, options);
+  return size && placeItem(frame, wm, size.width, size.height);
+};
+
+// Unrotated size of a single layer in frame px, null while its logo loads
+const getItemSize = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  wm: Watermark,
+  options: RenderOptions<TImage>
+) => {
+  if (wm.type === 'image') {
+    const logo = options.getLogo(wm.src);
+    return logo ? getLogoDrawSize(frame, wm, logo) : null;
+  }
+
+  ctx.save();
+  applyTextStyle(ctx, wm);
+  const { width, height } = layoutText(ctx, wm, {
+    metadata: options.metadata,
+    width: frame.width,
+    height: frame.height,
+    recipient: options.recipient,
+  });
+  ctx.restore();
+  const scale = getTextScale(frame, wm);
+  return { width: width * scale, height: height * scale };
+};
+
+// Tile gaps in the other unit that keep the pattern as it is on this frame; % gaps are relative
+// to the tile's own width and height. Null while a logo tile loads
+export const convertTileGapUnit = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  wm: Watermark,
+  unit: MarginUnit,
+  options: RenderOptions<TImage>
+): Partial<Watermark> | null => {
+  const size = getItemSize(ctx, frame, wm, options);
+  if (!size || size.width <= 0 || size.height <= 0) return null;
+  const toPx = (gap: number, length: number) => wm.tileGapUnit === '%' ? (length * gap) / 100 : gap;
+  const fromPx = (gap: number, length: number) => unit === '%' ? (gap / length) * 100 : gap;
+  return {
+    tileGapUnit: unit,
+    tileGapX: roundToUnit(fromPx(toPx(wm.tileGapX, size.width), size.width), unit),
+    tileGapY: roundToUnit(fromPx(toPx(wm.tileGapY, size.height), size.height), unit),
+  };
+};
+
+export interface SmartCandidate {
+  position: AnchorPosition;
+  box: WatermarkBox;
+  // Mean busyness under the box, 0–1
+  score: number;
+  // Overlaps another watermark
+  blocked: boolean;
+}
+
+export interface SmartPlacement {
+  position: AnchorPosition;
+  candidates: SmartCandidate[];
+}
+
+const SMART_FALLBACK: AnchorPosition = 'bottom-right';
+
+const boxesOverlap = (a: WatermarkBox, b: WatermarkBox) => {
+  const ra = getBoxBounds(a);
+  const rb = getBoxBounds(b);
+  return ra.x < rb.x + rb.width && rb.x < ra.x + ra.width && ra.y < rb.y + rb.height && rb.y < ra.y + ra.height;
+};
+
+/**
+ * Drops hidden layers and replaces 'smart' positions with the calmest anchor for this image.
+ * Every anchor is scored by the busyness under the layer's rotated bounds; anchors overlapping
+ * another single layer are skipped unless nothing else is left. Smart layers are placed in draw
+ * order, each one avoiding those placed before it. The placements explain each choice for the editor.
+ */
+export const resolveSmartPositions = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  layers: Watermark[],
+  options: RenderOptions<TImage>
+) => {
+  const placements = new Map<string, SmartPlacement>();
+  const visible = layers.filter(wm => !wm.hidden);
+  if (!visible.some(wm => wm.position === 'smart' && wm.layout === 'single')) return { layers: visible, placements };
+
+  const taken = visible.flatMap(wm => {
+    if (wm.position === 'smart') return [];
+    const box = getWatermarkBox(ctx, frame, wm, options);
+    return box ? [box] : [];
+  });
+
+  const resolved = visible.map(wm => {
+    if (wm.position !== 'smart' || wm.layout !== 'single') return wm;
+    const size = getItemSize(ctx, frame, wm, options);
+    if (!size || !options.saliency) return { ...wm, position: SMART_FALLBACK };
+
+    const saliency = options.saliency;
+    const candidates = ANCHOR_POSITIONS.map(position => {
+      const box = placeItem(frame, { ...wm, position }, size.width, size.height);
+      return {
+        position,
+        box,
+        score: scoreRegion(saliency, frame, getBoxBounds(box)),
+        blocked: taken.some(other => boxesOverlap(box, other)),
+      };
+    });
+    const pool = candidates.some(c => !c.blocked) ? candidates.filter(c => !c.blocked) : candidates;
+    const best = pool.reduce((a, b) => b.score < a.score ? b : a);
+    placements.set(wm.id, { position: best.position, candidates });
+    taken.push(best.box);
+    return { ...wm, position: best.position };
+  });
+  return { layers: resolved, placements };
+};
+
+/**
+ * Applies a personalized copy's jitter to a placed single layer. The nudged layer becomes a
+ * custom position at its new centre, so anchors, margins and smart placement stay the starting point.
+ */
+const applyJitter = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  wm: Watermark,
+  options: RenderOptions<TImage>
+): Watermark => {
+  const jitter = options.jitter?.[wm.id];
+  if (!jitter || wm.layout !== 'single') return wm;
+  const rotated = { ...wm, rotation: wm.rotation + jitter.rotation };
+  const box = getWatermarkBox(ctx, frame, rotated, options);
+  if (!box) return rotated;
+  const unit = getShortEdge(frame) / 100;
+  return {
+    ...rotated,
+    position: 'custom',
+    customX: ((box.x + jitter.x * unit) / frame.width) * 100,
+    customY: ((box.y + jitter.y * unit) / frame.height) * 100,
+  };
+};
+
+/** Whether a frame point falls inside the rotated box, optionally grown by `tolerance` px on each side. */
+export const isPointInBox = (box: WatermarkBox, x: number, y: number, tolerance = 0) => {
+  const angle = (-box.rotation * Math.PI) / 180;
+  const dx = x - box.x;
+  const dy = y - box.y;
+  const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+  return Math.abs(localX) <= box.width / 2 + tolerance && Math.abs(localY) <= box.height / 2 + tolerance;
+};
+
+/** Draws every visible layer in array order onto a frame of the given size. */
+export const drawWatermarks = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  frame: Frame,
+  layers: Watermark[],
+  options: RenderOptions<TImage>
+) => {
+  const context: TextContext = {
+    metadata: options.metadata,
+    width: frame.width,
+    height: frame.height,
+    recipient: options.recipient,
+  };
+  const scratch = layers.some(wm => wm.effect === 'emboss' || wm.effect === 'engrave')
+    ? createScratchPool(options.createLayer)
+    : null;
+
+  resolveSmartPositions(ctx, frame, layers, options).layers.forEach(placed => {
+    const wm = applyJitter(ctx, frame, placed, options);
+    if (wm.type === 'image') {
+      const logo = options.getLogo(wm.src);
+      if (logo) drawImageWatermark(ctx, frame, wm, logo, scratch);
+    } else {
+      drawTextWatermark(ctx, frame, wm, context, scratch, options.backdrop ?? ctx);
+    }
+  });
+};
+
+/**
+ * Draws the source image at its native size followed by the watermarks.
+ * The caller sizes the target canvas to source.width × source.height.
+ */
+export const renderWatermarkedImage = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  source: TImage,
+  layers: Watermark[],
+  options: RenderOptions<TImage>
+) => {
+  ctx.drawImage(source, 0, 0);
+  // Callers that previewed this image pass the map they previewed with, so both place alike
+  const saliency = options.saliency === undefined && options.createLayer && layers.some(wm => wm.position === 'smart')
+    ? computeSaliency(source, options.createLayer)
+    : options.saliency;
+  drawWatermarks(ctx, { width: source.width, height: source.height }, layers, { ...options, saliency });
+};
+
+/**
+ * Preview counterpart of renderWatermarkedImage(): draws a downscaled copy of the source
+ * and lays the watermarks out for the full-size frame, scaled down as a whole. The caller
+ * sizes the canvas to proxy.width × proxy.height; the result matches the export geometrically.
+ */
+export const renderPreview = <TImage extends ImageLike>(
+  ctx: Canvas2DLike<TImage>,
+  proxy: TImage,
+  frame: Frame,
+  layers: Watermark[],
+  options: RenderOptions<TImage>
+) => {
+  ctx.save();
+  ctx.setTransform(proxy.width / frame.width, 0, 0, proxy.height / frame.height, 0, 0);
+  ctx.drawImage(proxy, 0, 0, frame.width, frame.height);
+  drawWatermarks(ctx, frame, layers, options);
+  ctx.restore();
+};
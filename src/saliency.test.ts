@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCanvas, type Canvas } from '@napi-rs/canvas';
+import { DEFAULT_PREPROCESS, drawPreprocessed, resolvePreprocess } from './preprocess';
+import { getPreviewSize } from './preview';
+import { normalizeWatermark } from './presets';
+import { resolveSmartPositions, type Canvas2DLike, type ScratchLayer } from './render';
+import { computeSaliency } from './saliency';
+
+const createLayer = (width: number, height: number) =>
+  createCanvas(width, height).getContext('2d') as unknown as ScratchLayer<Canvas>;
+
+// Fine stripes everywhere except the bottom-left corner, where a smart layer belongs
+const createPhoto = (width: number, height: number) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#6b8cae';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#1c1c1c';
+  for (let x = 0; x < width; x += 24) ctx.fillRect(x, 0, 9, height);
+  ctx.fillStyle = '#6b8cae';
+  ctx.fillRect(0, height * 0.6, width * 0.4, height * 0.4);
+  return canvas;
+};
+
+// What the editor analyses: the preview proxy, drawn as createPreviewImage() draws it
+const createProxy = (photo: Canvas) => {
+  const resolved = resolvePreprocess(photo, DEFAULT_PREPROCESS);
+  const { width, height } = getPreviewSize(photo.width, photo.height);
+  const proxy = createCanvas(width, height);
+  const ctx = proxy.getContext('2d') as unknown as Canvas2DLike<Canvas>;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(width / photo.width, height / photo.height);
+  drawPreprocessed(ctx, photo, DEFAULT_PREPROCESS, resolved);
+  return proxy;
+};
+
+describe('computeSaliency', () => {
+  it('sees the same map in the full-size image as in the preview proxy', () => {
+    const photo = createPhoto(6000, 4000);
+    const full = computeSaliency(photo, createLayer);
+    const preview = computeSaliency(createProxy(photo), createLayer);
+    assert.equal(full.cols, preview.cols);
+    assert.equal(full.rows, preview.rows);
+    for (let i = 0; i < full.values.length; i++) assert.ok(Math.abs(full.values[i] - preview.values[i]) < 0.01);
+  });
+
+  it('places smart layers on the same anchor at both sizes', () => {
+    const photo = createPhoto(6000, 4000);
+    const frame = { width: photo.width, height: photo.height };
+    const layers = [normalizeWatermark({ type: 'text', text: '© 浅香', position: 'smart' })];
+    const ctx = createLayer(1, 1);
+    const place = (source: Canvas) => resolveSmartPositions(ctx, frame, layers, {
+      getLogo: () => null,
+      metadata: null,
+      saliency: computeSaliency(source, createLayer),
+    }).layers[0].position;
+    assert.equal(place(photo), 'bottom-left');
+    assert.equal(place(createProxy(photo)), 'bottom-left');
+  });
+});
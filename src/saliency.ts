@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getPreviewSize } from './preview';
+import type { Frame, ImageLike, ScratchLayer } from './render';
+
+/**
+ * Busyness map for smart placement. The image is analysed at a small fixed size:
+ * edge density (Sobel gradient of the luminance) marks texture and outlines, colour
+ * distance from the image average marks subjects that stand out from the background.
+ * A watermark over a low-scoring region hides little and stays legible.
+ */
+
+export interface SaliencyMap {
+  cols: number;
+  rows: number;
+  // Row-major per cell, 0 (calm) – 1 (busiest cell of the image)
+  values: Float32Array;
+}
+
+// Longest edge of the analysis bitmap; placement only needs a coarse picture
+const ANALYSIS_EDGE = 160;
+const EDGE_WEIGHT = 0.65;
+// Cells around a busy spot count as busy too, so marks keep some distance from subjects
+const SPREAD_RADIUS = 2;
+
+const normalize = (values: Float32Array) => {
+  let max = 0;
+  for (const v of values) max = Math.max(max, v);
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max;
+  return values;
+};
+
+// Box blur with edge clamping, done as two 1-D passes
+const blur = (values: Float32Array, cols: number, rows: number, radius: number) => {
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? x + k : x;
+          const sy = horizontal ? y : y + k;
+          if (sx < 0 || sy < 0 || sx >= cols || sy >= rows) continue;
+          sum += input[sy * cols + sx];
+          count++;
+        }
+        output[y * cols + x] = sum / count;
+      }
+    }
+    return output;
+  };
+  return pass(pass(values, true), false);
+};
+
+/** Builds the map from RGBA pixels of the analysis bitmap. */
+export const analysePixels = (data: Uint8ClampedArray, cols: number, rows: number): SaliencyMap => {
+  const size = cols * rows;
+  const luminance = new Float32Array(size);
+  let meanR = 0;
+  let meanG = 0;
+  let meanB = 0;
+  for (let i = 0; i < size; i++) {
+    const p = i * 4;
+    luminance[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    meanR += data[p];
+    meanG += data[p + 1];
+    meanB += data[p + 2];
+  }
+  meanR /= size;
+  meanG /= size;
+  meanB /= size;
+
+  const lum = (x: number, y: number) =>
+    luminance[Math.min(rows - 1, Math.max(0, y)) * cols + Math.min(cols - 1, Math.max(0, x))];
+  const edges = new Float32Array(size);
+  const distinct = new Float32Array(size);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const gx = lum(x + 1, y - 1) + 2 * lum(x + 1, y) + lum(x + 1, y + 1) - lum(x - 1, y - 1) - 2 * lum(x - 1, y) - lum(x - 1, y + 1);
+      const gy = lum(x - 1, y + 1) + 2 * lum(x, y + 1) + lum(x + 1, y + 1) - lum(x - 1, y - 1) - 2 * lum(x, y - 1) - lum(x + 1, y - 1);
+      const i = y * cols + x;
+      const p = i * 4;
+      edges[i] = Math.hypot(gx, gy);
+      distinct[i] = Math.hypot(data[p] - meanR, data[p + 1] - meanG, data[p + 2] - meanB);
+    }
+  }
+
+  normalize(edges);
+  normalize(blur(distinct, cols, rows, 1)).forEach((v, i) => {
+    edges[i] = EDGE_WEIGHT * edges[i] + (1 - EDGE_WEIGHT) * v;
+  });
+  return { cols, rows, values: normalize(blur(edges, cols, rows, SPREAD_RADIUS)) };
+};
+
+/**
+ * Analyses the upright source image; `createLayer` supplies the scratch canvases. The editor
+ * passes its preview proxy, the CLI and server the full-size image; larger sources are first
+ * brought to the proxy's size the way the preview draws it, so both see the same pixels and
+ * smart layers land on the same anchor.
+ */
+export const computeSaliency = <TImage extends ImageLike>(
+  image: TImage,
+  createLayer: (width: number, height: number) => ScratchLayer<TImage>
+): SaliencyMap => {
+  let source = image;
+  const proxySize = getPreviewSize(image.width, image.height);
+  if (proxySize.width !== image.width || proxySize.height !== image.height) {
+    const proxy = createLayer(proxySize.width, proxySize.height);
+    proxy.imageSmoothingQuality = 'high';
+    proxy.drawImage(image, 0, 0, proxySize.width, proxySize.height);
+    source = proxy.canvas;
+  }
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(source.width, source.height));
+  const cols = Math.max(1, Math.round(source.width * scale));
+  const rows = Math.max(1, Math.round(source.height * scale));
+  const layer = createLayer(cols, rows);
+  layer.drawImage(source, 0, 0, cols, rows);
+  return analysePixels(layer.getImageData(0, 0, cols, rows).data, cols, rows);
+};
+
+// Summed-area table with a zero row and column in front, (cols + 1) × (rows + 1)
+const integralCache = new WeakMap<SaliencyMap, Float64Array>();
+
+const getIntegral = (map: SaliencyMap) => {
+  let table = integralCache.get(map);
+  if (table) return table;
+  const stride = map.cols + 1;
+  table = new Float64Array(stride * (map.rows + 1));
+  for (let y = 0; y < map.rows; y++) {
+    let row = 0;
+    for (let x = 0; x < map.cols; x++) {
+      row += map.values[y * map.cols + x];
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + row;
+    }
+  }
+  integralCache.set(map, table);
+  return table;
+};
+
+/**
+ * Mean busyness (0–1) of a rectangle in frame px. Edges between cells are interpolated,
+ * so moving a box by less than a cell still changes its score smoothly.
+ */
+export const scoreRegion = (map: SaliencyMap, frame: Frame, rect: { x: number; y: number; width: number; height: number }) => {
+  const table = getIntegral(map);
+  const stride = map.cols + 1;
+  const toX = (x: number) => Math.min(map.cols, Math.max(0, (x / frame.width) * map.cols));
+  const toY = (y: number) => Math.min(map.rows, Math.max(0, (y / frame.height) * map.rows));
+  const at = (x: number, y: number) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(map.cols, x0 + 1);
+    const y1 = Math.min(map.rows, y0 + 1);
+    const fx = x - x0;
+    const fy = y - y0;
+    const top = table[y0 * stride + x0] * (1 - fx) + table[y0 * stride + x1] * fx;
+    const bottom = table[y1 * stride + x0] * (1 - fx) + table[y1 * stride + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+
+  const left = toX(rect.x);
+  const right = toX(rect.x + rect.width);
+  const top = toY(rect.y);
+  const bottom = toY(rect.y + rect.height);
+  const area = (right - left) * (bottom - top);
+  if (area <= 0) return 1;
+  return (at(right, bottom) - at(left, bottom) - at(right, top) + at(left, top)) / area;
+};
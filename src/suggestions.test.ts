@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMockProvider, toSuggestion, type SuggestionRequest, type WatermarkSuggestion } from './suggestions';
+
+const request: SuggestionRequest = {
+  image: 'data:image/jpeg;base64,',
+  width: 4000,
+  height: 2000,
+  metadata: { fileName: 'IMG_0042.jpg', fileDate: null, orientation: 1, make: 'Fujifilm', model: 'X-T5' },
+  existing: [],
+};
+
+// Suggestion and layer ids are fresh on every call
+const withoutIds = (suggestions: WatermarkSuggestion[]) =>
+  suggestions.map(({ reason, watermark: { id: _, ...watermark } }) => ({ reason, watermark }));
+
+describe('createMockProvider', () => {
+  it('returns the same suggestions for the same input', async () => {
+    const provider = createMockProvider();
+    const first = await provider.suggest(request);
+    const second = await createMockProvider().suggest(request);
+    assert.ok(first.length > 0);
+    assert.deepEqual(withoutIds(second), withoutIds(first));
+  });
+
+  it('skips the credit when the image already has one', async () => {
+    const [credit] = await createMockProvider().suggest(request);
+    const suggestions = await createMockProvider().suggest({ ...request, existing: [credit.watermark] });
+    assert.ok(!suggestions.some(s => s.watermark.type === 'text' && s.watermark.text.includes('©')));
+  });
+});
+
+describe('toSuggestion', () => {
+  it('clamps numbers into range', () => {
+    const suggestion = toSuggestion({ text: 'x', size: 500, opacity: -1, rotation: 720 });
+    assert.ok(suggestion);
+    assert.equal(suggestion.watermark.relativeSize, 20);
+    assert.equal(suggestion.watermark.opacity, 0.1);
+    assert.equal(suggestion.watermark.rotation, 180);
+  });
+
+  it('falls back for unknown positions, colours and non-numbers', () => {
+    const suggestion = toSuggestion({
+      text: '  样张  ',
+      position: 'somewhere',
+      color: 'red',
+      size: 'big' as unknown as number,
+    });
+    assert.ok(suggestion?.watermark.type === 'text');
+    assert.equal(suggestion.watermark.text, '样张');
+    assert.equal(suggestion.watermark.position, 'smart');
+    assert.equal(suggestion.watermark.colorMode, 'auto');
+    assert.equal(suggestion.watermark.relativeSize, 4);
+  });
+
+  it('rejects suggestions without text', () => {
+    assert.equal(toSuggestion({ text: '   ' }), null);
+    assert.equal(toSuggestion({ text: 42 as unknown as string }), null);
+    assert.equal(toSuggestion({}), null);
+  });
+});
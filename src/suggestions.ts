@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageMetadata } from './exif';
+import { normalizeWatermark } from './presets';
+import { ANCHOR_POSITIONS, createId, type Position, type Watermark } from './watermark';
+
+/**
+ * "Suggest watermark text and placement for this image". Providers get a small copy of the
+ * image plus its metadata and return complete layers the editor can add as they are.
+ */
+
+export interface SuggestionRequest {
+  // Downscaled JPEG of the upright image, as a data URL
+  image: string;
+  width: number;
+  height: number;
+  metadata: ImageMetadata | null;
+  // Layers already on the image, so suggestions can complement rather than repeat them
+  existing: Watermark[];
+}
+
+export interface WatermarkSuggestion {
+  id: string;
+  // One sentence on why this text and placement suit the image
+  reason: string;
+  watermark: Watermark;
+}
+
+export interface SuggestionProvider {
+  id: string;
+  label: string;
+  suggest: (request: SuggestionRequest) => Promise<WatermarkSuggestion[]>;
+}
+
+/**
+ * Provider-neutral suggestion format; models are asked for exactly this shape.
+ * `text` may use the {variables} from textVariables.ts.
+ */
+export interface RawSuggestion {
+  text: string;
+  position: string;
+  // Text height as % of the image's short edge
+  size: number;
+  opacity: number;
+  // #rrggbb, or 'auto' to pick a contrasting colour per image
+  color: string;
+  rotation?: number;
+  tiled?: boolean;
+  reason: string;
+}
+
+const SUGGESTION_POSITIONS: Position[] = [...ANCHOR_POSITIONS, 'smart'];
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Turns one raw suggestion into a ready-to-apply text layer; null when it is unusable. */
+export const toSuggestion = (raw: Partial<RawSuggestion>): WatermarkSuggestion | null => {
+  const text = typeof raw.text === 'string' ? raw.text.trim().slice(0, 200) : '';
+  if (!text) return null;
+  const position = SUGGESTION_POSITIONS.includes(raw.position as Position) ? raw.position as Position : 'smart';
+  const color = typeof raw.color === 'string' && /^#[0-9a-f]{6}$/i.test(raw.color) ? raw.color : null;
+  const tiled = raw.tiled === true;
+
+  return {
+    id: createId(),
+    reason: typeof raw.reason === 'string' ? raw.reason.trim() : '',
+    watermark: normalizeWatermark({
+      type: 'text',
+      text,
+      position,
+      layout: tiled ? 'tiled' : 'single',
+      sizeMode: 'short-edge',
+      relativeSize: clamp(raw.size, 1, 20, 4),
+      opacity: clamp(raw.opacity, 0.1, 1, 0.8),
+      rotation: Math.round(clamp(raw.rotation, -180, 180, tiled ? -30 : 0)),
+      colorMode: color ? 'fixed' : 'auto',
+      ...(color ? { color } : {}),
+    }),
+  };
+};
+
+// Stable pick for the same image, so the mock returns the same list every time
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  return hash >>> 0;
+};
+
+const MOCK_TAGLINES = ['保留所有权利', '未经授权禁止转载', '仅供预览', 'All rights reserved'];
+
+/**
+ * Offline provider: no network, same input gives the same suggestions. It builds credit,
+ * camera caption and protection marks from the metadata and leaves the corner to smart placement.
+ */
+export const createMockProvider = (): SuggestionProvider => ({
+  id: 'mock',
+  label: '本地规则（离线）',
+  suggest: async ({ width, height, metadata, existing }) => {
+    const seed = hashString(`${metadata?.fileName ?? ''}:${width}x${height}`);
+    const hasCredit = existing.some(wm => wm.type === 'text' && /\{(author|copyright)|©/.test(wm.text));
+    const raw: RawSuggestion[] = [];
+
+    if (!hasCredit) {
+      raw.push({
+        text: '© {author|摄影师} {year}',
+        position: 'smart',
+        size: 3.5,
+        opacity: 0.85,
+        color: 'auto',
+        reason: '版权署名放在画面最空旷的位置，颜色按背景自动取对比色',
+      });
+    }
+    if (metadata?.make || metadata?.model) {
+      raw.push({
+        text: '{camera} · {focal|-}mm f/{aperture|-} {shutter|-} ISO {iso|-}',
+        position: 'bottom-center',
+        size: 2.2,
+        opacity: 0.75,
+        color: 'auto',
+        reason: '照片带有相机参数，适合做成底部的拍摄信息条',
+      });
+    }
+    raw.push({
+      text: MOCK_TAGLINES[seed % MOCK_TAGLINES.length],
+      position: 'center',
+      size: 3,
+      opacity: 0.15,
+      color: '#ffffff',
+      rotation: -30,
+      tiled: true,
+      reason: '低不透明度的平铺文字覆盖全图，裁切后仍能保留标识',
+    });
+    if (width > height * 1.6) {
+      raw.push({
+        text: '{author|摄影师}',
+        position: 'bottom-right',
+        size: 2.5,
+        opacity: 0.7,
+        color: 'auto',
+        reason: '宽幅画面两侧常有主体，小号署名贴在角落更不显眼',
+      });
+    }
+
+    return raw.map(toSuggestion).filter((s): s is WatermarkSuggestion => s !== null);
+  },
+});
+
+// The AI Studio template injects GEMINI_API_KEY at build time; the .env.example placeholder does not count
+const getGeminiApiKey = () => {
+  const key = process.env.GEMINI_API_KEY;
+  return key && key !== 'MY_GEMINI_API_KEY' ? key : null;
+};
+
+/** Available providers, the default first: Gemini when a key is configured, the mock always. */
+export const getSuggestionProviders = async (): Promise<SuggestionProvider[]> => {
+  const providers = [createMockProvider()];
+  const apiKey = getGeminiApiKey();
+  if (apiKey) {
+    const { createGeminiProvider } = await import('./geminiProvider');
+    providers.unshift(createGeminiProvider(apiKey));
+  }
+  return providers;
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageMetadata } from './exif';
+
+export interface TextContext {
+  metadata: ImageMetadata | null;
+  width: number;
+  height: number;
+  // Set for personalized exports, one copy per recipient
+  recipient?: string;
+}
+
+type Resolver = (context: TextContext) => string | undefined;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// 2.8 instead of 2.80, 8 instead of 8.0
+const formatNumber = (value: number) => String(Math.round(value * 10) / 10);
+
+const formatShutter = (seconds: number) =>
+  seconds >= 1 ? `${formatNumber(seconds)}s` : `1/${Math.round(1 / seconds)}`;
+
+const getCaptureDate = ({ metadata }: TextContext) => metadata?.dateTaken ?? metadata?.fileDate ?? undefined;
+
+const getCamera = ({ metadata }: TextContext) => {
+  const make = metadata?.make;
+  const model = metadata?.model;
+  if (!model) return make;
+  // Most models already start with the brand ("Canon EOS R5")
+  return make && !model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? `${make} ${model}` : model;
+};
+
+const RESOLVERS: Record<string, Resolver> = {
+  author: ({ metadata }) => metadata?.artist ?? metadata?.copyright,
+  copyright: ({ metadata }) => metadata?.copyright,
+  date: (context) => {
+    const date = getCaptureDate(context);
+    return date && formatDate(date);
+  },
+  time: (context) => {
+    const date = getCaptureDate(context);
+    return date && formatTime(date);
+  },
+  year: (context) => getCaptureDate(context)?.getFullYear().toString(),
+  camera: getCamera,
+  make: ({ metadata }) => metadata?.make,
+  model: ({ metadata }) => metadata?.model,
+  lens: ({ metadata }) => metadata?.lens,
+  aperture: ({ metadata }) => metadata?.fNumber && formatNumber(metadata.fNumber),
+  shutter: ({ metadata }) => metadata?.exposureTime && formatShutter(metadata.exposureTime),
+  iso: ({ metadata }) => metadata?.iso?.toString(),
+  focal: ({ metadata }) => metadata?.focalLength && formatNumber(metadata.focalLength),
+  filename: ({ metadata }) => metadata?.fileName.replace(/\.[^.]+$/, ''),
+  width: ({ width }) => (width ? String(width) : undefined),
+  height: ({ height }) => (height ? String(height) : undefined),
+  recipient: ({ recipient }) => recipient,
+};
+
+export const TEXT_VARIABLES: { key: string; label: string }[] = [
+  { key: 'author', label: '作者' },
+  { key: 'date', label: '拍摄日期' },
+  { key: 'time', label: '拍摄时间' },
+  { key: 'year', label: '年份' },
+  { key: 'camera', label: '相机' },
+  { key: 'lens', label: '镜头' },
+  { key: 'aperture', label: '光圈' },
+  { key: 'shutter', label: '快门' },
+  { key: 'iso', label: 'ISO' },
+  { key: 'focal', label: '焦距' },
+  { key: 'filename', label: '文件名' },
+  { key: 'width', label: '宽度' },
+  { key: 'height', label: '高度' },
+  { key: 'recipient', label: '收件人' },
+];
+
+// {key} or {key|fallback}; unknown keys are left untouched so literal braces still work
+const VARIABLE_PATTERN = /\{(\w+)(?:\|([^}]*))?\}/g;
+
+export const hasTextVariables = (text: string) => {
+  VARIABLE_PATTERN.lastIndex = 0;
+  return VARIABLE_PATTERN.test(text);
+};
+
+/** Fills in {variables} for one image. Missing values use the fallback after `|`, or become empty. */
+export const resolveText = (text: string, context: TextContext) =>
+  text.replace(VARIABLE_PATTERN, (match, key: string, fallback: string | undefined) => {
+    const resolver = RESOLVERS[key];
+    if (!resolver) return match;
+    return resolver(context) || fallback || '';
+  });
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * Bounded undo/redo stack. Consecutive edits that share a coalesce key collapse
+ * into one entry until checkpoint() is called, so a slider drag or a canvas drag
+ * is undone in a single step.
+ */
+export function useHistory<T>(initial: () => T, limit = 100) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({ past: [], present: initial(), future: [] }));
+  const lastKey = useRef<string | null>(null);
+
+  const set = useCallback((updater: (prev: T) => T, coalesceKey?: string) => {
+    const coalesce = coalesceKey !== undefined && coalesceKey === lastKey.current;
+    lastKey.current = coalesceKey ?? null;
+
+    setHistory(prev => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+      if (coalesce) return { ...prev, present: next, future: [] };
+      return { past: [...prev.past, prev.present].slice(-limit), present: next, future: [] };
+    });
+  }, [limit]);
+
+  const checkpoint = useCallback(() => {
+    lastKey.current = null;
+  }, []);
+
+  const undo = useCallback(() => {
+    lastKey.current = null;
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastKey.current = null;
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  }, []);
+
+  return {
+    present: history.present,
+    set,
+    checkpoint,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getDesktop, type HotFolderFile, type PickedFolder } from './desktop';
+import { ExportCancelledError } from './exportClient';
+
+export interface HotFolderConfig {
+  // Picked again each session, since the ids expire with it; only the preset is remembered
+  inputDir: PickedFolder | null;
+  outputDir: PickedFolder | null;
+  presetId: string;
+}
+
+export interface HotFolderLogEntry {
+  id: number;
+  name: string;
+  status: 'done' | 'failed';
+  // Output path when done, the error message when failed
+  detail: string;
+  time: number;
+}
+
+// Renders one picked-up file with the chosen preset
+export type HotFolderProcessor = (file: File, presetId: string) => Promise<{ filename: string; blob: Blob }>;
+
+const STORAGE_KEY = 'qianxiang-watermark:hot-folder';
+const LOG_LIMIT = 200;
+
+const EMPTY_CONFIG: HotFolderConfig = { inputDir: null, outputDir: null, presetId: '' };
+
+const loadConfig = (): HotFolderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { ...EMPTY_CONFIG, presetId: typeof stored.presetId === 'string' ? stored.presetId : '' };
+  } catch {
+    return EMPTY_CONFIG;
+  }
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const getMimeType = (name: string) => MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? '';
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Desktop hot folder: while running, every image that appears in the input folder is
+ * queued, rendered one at a time with the chosen preset and written to the output folder.
+ * Inactive (desktop is null) in the web build.
+ */
+export function useHotFolder(processFile: HotFolderProcessor) {
+  const desktop = getDesktop();
+  const [config, setConfig] = useState<HotFolderConfig>(loadConfig);
+  const [running, setRunning] = useState(false);
+  // Waiting files; while busy, the first one is being processed
+  const [queue, setQueue] = useState<HotFolderFile[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [log, setLog] = useState<HotFolderLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const nextLogId = useRef(1);
+  // The processor closes over the editor's current presets and export options
+  const processRef = useRef(processFile);
+  processRef.current = processFile;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ presetId: config.presetId }));
+  }, [config.presetId]);
+
+  useEffect(() => {
+    if (!desktop) return;
+    const offFile = desktop.hotFolder.onFile(file => setQueue(prev => [...prev, file]));
+    const offError = desktop.hotFolder.onError(message => {
+      setRunning(false);
+      setQueue([]);
+      setError(message);
+    });
+    return () => {
+      offFile();
+      offError();
+    };
+  }, [desktop]);
+
+  const addLog = (entry: Omit<HotFolderLogEntry, 'id' | 'time'>) => {
+    setLog(prev => [{ ...entry, id: nextLogId.current++, time: Date.now() }, ...prev].slice(0, LOG_LIMIT));
+  };
+
+  useEffect(() => {
+    if (!desktop || busy || queue.length === 0) return;
+    const file = queue[0];
+    setBusy(true);
+    (async () => {
+      try {
+        const data = await desktop.hotFolder.read(file.path);
+        const source = new File([data], file.name, { type: getMimeType(file.name), lastModified: file.lastModified });
+        const { filename, blob } = await processRef.current(source, config.presetId);
+        const written = await desktop.hotFolder.write(filename, new Uint8Array(await blob.arrayBuffer()));
+        addLog({ name: file.name, status: 'done', detail: written });
+      } catch (err) {
+        // A cancelled manual export also stops the shared worker; run the file again
+        if (err instanceof ExportCancelledError) return;
+        addLog({ name: file.name, status: 'failed', detail: err instanceof Error ? err.message : '处理失败' });
+      } finally {
+        setBusy(false);
+      }
+      setQueue(prev => prev.filter(f => f !== file));
+    })();
+  }, [desktop, busy, queue, config.presetId]);
+
+  const start = useCallback(async () => {
+    if (!desktop) return;
+    if (!config.inputDir || !config.outputDir) return;
+    setError(null);
+    try {
+      await desktop.hotFolder.start(config.inputDir.id, config.outputDir.id);
+      setRunning(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '无法开始监视');
+    }
+  }, [desktop, config.inputDir, config.outputDir]);
+
+  // The file being processed finishes; files still waiting are dropped
+  const stop = useCallback(async () => {
+    if (!desktop) return;
+    await desktop.hotFolder.stop();
+    setRunning(false);
+    setQueue(prev => busy ? prev.slice(0, 1) : []);
+  }, [desktop, busy]);
+
+  const saveLog = useCallback(async () => {
+    if (!desktop) return;
+    const rows = [['时间', '文件', '状态', '说明'], ...[...log].reverse().map(entry => [
+      new Date(entry.time).toLocaleString(),
+      entry.name,
+      entry.status === 'done' ? '完成' : '失败',
+      entry.detail,
+    ])];
+    // BOM so spreadsheet apps read the Chinese text as UTF-8
+    const csv = '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+    try {
+      await desktop.saveFile('水印日志.csv', new TextEncoder().encode(csv));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '无法保存日志');
+    }
+  }, [desktop, log]);
+
+  return {
+    available: desktop !== null,
+    config,
+    setConfig,
+    running,
+    queue,
+    current: busy ? queue[0] ?? null : null,
+    log,
+    error,
+    start,
+    stop,
+    clearLog: () => setLog([]),
+    saveLog,
+  };
+}
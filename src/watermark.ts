@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Position =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center-left' | 'center' | 'center-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right'
+  // 'smart' picks the anchor over the calmest part of each image
+  | 'smart'
+  | 'custom';
+
+export type AnchorPosition = Exclude<Position, 'smart' | 'custom'>;
+
+export const ANCHOR_POSITIONS: AnchorPosition[] = [
+  'top-left', 'top-center', 'top-right',
+  'center-left', 'center', 'center-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+export const ANCHOR_LABELS: Record<AnchorPosition, string> = {
+  'top-left': '左上角',
+  'top-center': '顶部居中',
+  'top-right': '右上角',
+  'center-left': '左侧居中',
+  center: '正中',
+  'center-right': '右侧居中',
+  'bottom-left': '左下角',
+  'bottom-center': '底部居中',
+  'bottom-right': '右下角',
+};
+
+// 'px' uses fontSize / scale as is; the others size the layer as a percentage of the image
+export type SizeMode = 'px' | 'width' | 'short-edge';
+
+export type MarginUnit = '%' | 'px';
+
+// Where a margin starts in each unit when there is no image to convert the current one against
+export const DEFAULT_MARGINS: Record<MarginUnit, number> = { '%': 3, px: 40 };
+
+export type BlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light'
+  | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'difference' | 'exclusion' | 'luminosity';
+
+export const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: 'normal', label: '正常' },
+  { mode: 'multiply', label: '正片叠底' },
+  { mode: 'screen', label: '滤色' },
+  { mode: 'overlay', label: '叠加' },
+  { mode: 'soft-light', label: '柔光' },
+  { mode: 'hard-light', label: '强光' },
+  { mode: 'darken', label: '变暗' },
+  { mode: 'lighten', label: '变亮' },
+  { mode: 'color-dodge', label: '颜色减淡' },
+  { mode: 'color-burn', label: '颜色加深' },
+  { mode: 'difference', label: '差值' },
+  { mode: 'exclusion', label: '排除' },
+  { mode: 'luminosity', label: '明度' },
+];
+
+// emboss / engrave: light and dark offset copies so the mark looks raised or pressed in;
+// frosted: a soft milky silhouette instead of the layer's own colours
+export type WatermarkEffect = 'none' | 'emboss' | 'engrave' | 'frosted';
+
+export type ColorMode = 'fixed' | 'auto';
+
+// Auto colour: black or white, or a tint complementary to the background
+export type AutoColorStyle = 'mono' | 'tint';
+
+export type Layout = 'single' | 'tiled';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface BaseWatermark {
+  id: string;
+  // Name shown in the layer list; empty falls back to the text or logo file name
+  label: string;
+  // Hidden layers are kept in the layout but neither drawn nor exported
+  hidden: boolean;
+  // Locked layers can still be edited in the sidebar but not dragged on the canvas
+  locked: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  effect: WatermarkEffect;
+  position: Position;
+  customX: number;
+  customY: number;
+  rotation: number;
+  sizeMode: SizeMode;
+  // Relative modes: text height, or logo width, as % of the image width / short edge
+  relativeSize: number;
+  // Gap between the rotated bounds and the image edge for anchored positions;
+  // % is of the short edge so equal X and Y margins look equal on any aspect ratio
+  marginX: number;
+  marginY: number;
+  marginUnit: MarginUnit;
+  layout: Layout;
+  // Tiled mode: gaps between tiles, odd rows shifted by tileOffset × tile step.
+  // % is of the tile's own width / height, so the pattern keeps its density at any layer size
+  tileGapX: number;
+  tileGapY: number;
+  tileGapUnit: MarginUnit;
+  tileOffset: number;
+}
+
+export interface TextWatermark extends BaseWatermark {
+  type: 'text';
+  // May span several lines, separated by \n
+  text: string;
+  fontSize: number;
+  color: string;
+  // 'auto' replaces color per image with one picked from the pixels under the layer
+  colorMode: ColorMode;
+  autoColorStyle: AutoColorStyle;
+  // WCAG contrast ratio the auto colour aims for, e.g. 4.5
+  contrastTarget: number;
+  // Auto mode adds an outline when the target is out of reach or the background is busy
+  autoOutline: boolean;
+  fontFamily: string;
+  // Uploaded font file as a data URL, empty for fonts installed on the system
+  fontSrc: string;
+  fontWeight: number;
+  italic: boolean;
+  // Extra px between characters. Like every px length of a text layer this is at fontSize;
+  // relative sizing scales the whole layer, so these keep their proportions
+  letterSpacing: number;
+  // Multiple of fontSize
+  lineHeight: number;
+  textAlign: TextAlign;
+  // Outline drawn under the fill, 0 disables it
+  strokeWidth: number;
+  strokeColor: string;
+  shadow: boolean;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  // Rounded box behind the text block
+  background: boolean;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  backgroundPadding: number;
+  backgroundRadius: number;
+}
+
+export interface ImageWatermark extends BaseWatermark {
+  type: 'image';
+  // Logo as a data URL so PNG/SVG transparency survives untouched
+  src: string;
+  name: string;
+  scale: number;
+}
+
+export type Watermark = TextWatermark | ImageWatermark;
+
+// What the layer list shows for a layer without a custom name
+export const getLayerName = (wm: Watermark) =>
+  wm.label || (wm.type === 'image' ? wm.name || '图片水印' : wm.text || '无文字');
+
+// Tile gaps each unit starts from when there is no tile to convert the current ones against
+export const DEFAULT_TILE_GAPS: Record<MarginUnit, Pick<BaseWatermark, 'tileGapX' | 'tileGapY'>> = {
+  '%': { tileGapX: 60, tileGapY: 150 },
+  px: { tileGapX: 120, tileGapY: 80 },
+};
+
+export const DEFAULT_TILING: Pick<BaseWatermark, 'layout' | 'tileGapX' | 'tileGapY' | 'tileGapUnit' | 'tileOffset'> = {
+  layout: 'single',
+  ...DEFAULT_TILE_GAPS['%'],
+  tileGapUnit: '%',
+  tileOffset: 0.5,
+};
+
+export const createId = () => Math.random().toString(36).substr(2, 9);
+
+// Field defaults shared by new layers and by preset migration, which fills in anything an older file lacks
+export const BASE_DEFAULTS: Omit<BaseWatermark, 'id'> = {
+  label: '',
+  hidden: false,
+  locked: false,
+  opacity: 0.5,
+  blendMode: 'normal',
+  effect: 'none',
+  position: 'center',
+  customX: 50,
+  customY: 50,
+  rotation: 0,
+  sizeMode: 'short-edge',
+  relativeSize: 5,
+  marginX: DEFAULT_MARGINS['%'],
+  marginY: DEFAULT_MARGINS['%'],
+  marginUnit: '%',
+  ...DEFAULT_TILING,
+};
+
+// Logos start at a fifth of the short edge rather than the text default
+export const IMAGE_RELATIVE_SIZE = 20;
+
+export const TEXT_DEFAULTS: Omit<TextWatermark, keyof BaseWatermark> = {
+  type: 'text',
+  text: '新水印',
+  fontSize: 40,
+  color: '#ffffff',
+  colorMode: 'fixed',
+  autoColorStyle: 'mono',
+  contrastTarget: 4.5,
+  autoOutline: true,
+  fontFamily: 'Inter',
+  fontSrc: '',
+  fontWeight: 400,
+  italic: false,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  textAlign: 'center',
+  strokeWidth: 0,
+  strokeColor: '#000000',
+  shadow: false,
+  shadowColor: '#000000',
+  shadowBlur: 8,
+  shadowOffsetX: 2,
+  shadowOffsetY: 2,
+  background: false,
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.4,
+  backgroundPadding: 12,
+  backgroundRadius: 8,
+};
+
+export const IMAGE_DEFAULTS: Omit<ImageWatermark, keyof BaseWatermark> = {
+  type: 'image',
+  src: '',
+  name: '',
+  scale: 0.3,
+};
+
+export const DEFAULT_WATERMARKS: Watermark[] = [
+  {
+    id: '1',
+    ...BASE_DEFAULTS,
+    ...TEXT_DEFAULTS,
+    text: '水印文字',
+    position: 'bottom-right',
+  },
+];
+
+// Text fields measured in px at fontSize, scaled together when a layer is resized
+const TEXT_LENGTH_FIELDS = [
+  'fontSize',
+  'letterSpacing',
+  'strokeWidth',
+  'shadowBlur',
+  'shadowOffsetX',
+  'shadowOffsetY',
+  'backgroundPadding',
+  'backgroundRadius',
+] as const;
+
+export const scaleTextLengths = (wm: TextWatermark, factor: number): Partial<TextWatermark> =>
+  Object.fromEntries(TEXT_LENGTH_FIELDS.map(key => [key, Math.round(wm[key] * factor * 10) / 10]));